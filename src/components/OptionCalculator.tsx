@@ -1,12 +1,18 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { format } from "date-fns";
-import { Calculator, Clock, Calendar, Info, Sparkles } from "lucide-react";
+import { Calculator, Clock, Calendar, Info, Sparkles, ChevronDown, Infinity as InfinityIcon } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import {
   Popover,
   PopoverContent,
@@ -29,16 +35,204 @@ import {
 import { cn } from "@/lib/utils";
 import {
   calculateOptionPremium,
-  calculateGreeks,
+  calculateImpliedVolatility,
+  calculateAdvancedGreeks,
+  calculateInverseGreeks,
+  toInversePremium,
+  calculateStrikeFromDelta,
+  calculateQuantoDriftAdjustment,
+  DeltaConvention,
+  StrikeSolverError,
+  calculateProbabilityITM,
+  calculateTouchProbability,
+  calculateExpectedMove,
+  ExpectedMove,
+  BarrierType,
+  DigitalType,
   dateToTimeToExpiry,
+  ImpliedVolatilityError,
   durationToTimeToExpiry,
 } from "@/utils/blackScholes";
-import { greekDescriptions } from "@/utils/greekDescriptions";
+import {
+  AmericanEngine,
+  AmericanEngineSettings,
+  calculateAmericanPremium,
+  REFERENCE_TREE_STEPS
+} from "@/utils/americanOptions";
+import {
+  priceOption,
+  simulatePathPayoffs,
+  AsianEngine,
+  BarrierEngine,
+  OptionSpecification,
+  PricingInputs,
+  UnderlyingType
+} from "@/utils/optionPricing";
+import { HestonParameters } from "@/utils/hestonModel";
+import { calculateSabrVolatility, SabrParameters } from "@/utils/sabrModel";
+import {
+  convertFxPremium,
+  DEFAULT_PIP_SIZE,
+  FxPremiumConvention,
+} from "@/utils/fxOptions";
+import { convertNormalToLognormalVolatility } from "@/utils/bachelierModel";
+import {
+  calculateExpectedAverage,
+  buildAveragingSchedule,
+  MAX_FIXINGS,
+  AverageType,
+} from "@/utils/asianOptions";
+import { countMonitoringDates, MAX_MONITORING_DATES, TerminalValueSample } from "@/utils/monteCarlo";
+import { LookbackStrike } from "@/utils/exoticOptions";
+import { DEFAULT_GRID_SIZE, GridSize, MAX_GRID_STEPS } from "@/utils/finiteDifference";
+import {
+  greekDescriptions,
+  advancedGreekDescriptions,
+  advancedGreekLabels,
+  bachelierVegaDescription
+} from "@/utils/greekDescriptions";
 import { toast } from "sonner";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { PayoffGraph } from './PayoffGraph';
+import { SmileChart } from './SmileChart';
 import { track } from '@vercel/analytics';
 
+const americanEngineLabels: Record<AmericanEngine, string> = {
+  "binomial": "Binomial (CRR)",
+  "trinomial": "Trinomial",
+  "crank-nicolson": "Crank-Nicolson PDE",
+  "barone-adesi-whaley": "Barone-Adesi-Whaley",
+  "bjerksund-stensland": "Bjerksund-Stensland"
+};
+
+// Models for European vanilla options; Black-Scholes also covers every other style
+type PricingModel = "black-scholes" | "heston" | "merton" | "sabr" | "bachelier" | "monte-carlo";
+
+const pricingModelLabels: Record<PricingModel, string> = {
+  "black-scholes": "Black-Scholes",
+  "heston": "Heston (Stochastic Vol)",
+  "merton": "Merton (Jump-Diffusion)",
+  "sabr": "SABR Smile",
+  "bachelier": "Bachelier (Normal)",
+  "monte-carlo": "Monte Carlo Simulation"
+};
+
+// Price processes simulated by the Monte Carlo model
+type MonteCarloProcess = "gbm" | "jump";
+
+// Models that produce the implied volatility instead of taking it as an input
+const volatilityOutputModels: PricingModel[] = ["heston", "sabr", "bachelier"];
+
+// Strikes plotted on the SABR smile, as a fraction of the option's strike either side
+const SMILE_STRIKE_RANGE = 0.5;
+const SMILE_POINTS = 61;
+
+const deltaConventionLabels: Record<DeltaConvention, string> = {
+  "spot": "Spot",
+  "forward": "Forward",
+  "spot-premium-adjusted": "Spot, premium-adj.",
+  "forward-premium-adjusted": "Forward, premium-adj."
+};
+
+const fxPremiumConventions: FxPremiumConvention[] = [
+  "domestic-pips",
+  "percent-foreign",
+  "foreign-pips",
+  "percent-domestic"
+];
+
+// How each FX premium convention is labelled for a currency pair
+const fxPremiumConventionLabel = (convention: FxPremiumConvention, foreign: string, domestic: string) => {
+  switch (convention) {
+    case "domestic-pips":
+      return `${domestic} pips per ${foreign}`;
+    case "percent-foreign":
+      return `% of ${foreign} notional`;
+    case "foreign-pips":
+      return `${foreign} pips per ${domestic}`;
+    case "percent-domestic":
+      return `% of ${domestic} notional`;
+  }
+};
+
+// Options expire on a date or after a duration; perpetual products never expire
+type TimeMethod = "date" | "duration" | "perpetual";
+
+// Perpetual products: everlasting options pay the option payoff, power perpetuals S^n
+type PerpetualProduct = "everlasting" | "power";
+
+const perpetualProductLabels: Record<PerpetualProduct, string> = {
+  "everlasting": "Everlasting Option",
+  "power": "Power Perpetual"
+};
+
+// Linear options settle in USD, inverse options in the coin and quanto options in
+// another currency at a fixed conversion rate
+type Settlement = "linear" | "inverse" | "quanto";
+
+// Payoff styles; vanilla options pay the intrinsic value
+type OptionStyle = "vanilla" | DigitalType | "barrier" | "asian" | "lookback" | "chooser" | "compound";
+
+const optionStyleLabels: Record<OptionStyle, string> = {
+  "vanilla": "Vanilla",
+  "cash-or-nothing": "Digital: Cash-or-Nothing",
+  "asset-or-nothing": "Digital: Asset-or-Nothing",
+  "barrier": "Barrier",
+  "asian": "Asian (Average)",
+  "lookback": "Lookback",
+  "chooser": "Chooser",
+  "compound": "Compound (Option on Option)"
+};
+
+const lookbackStrikeLabels: Record<LookbackStrike, string> = {
+  "floating": "Floating Strike",
+  "fixed": "Fixed Strike"
+};
+
+// Simple choosers pick between a call and a put with the same terms; complex
+// choosers let the put have its own strike and expiry
+type ChooserType = "simple" | "complex";
+
+// Simulated paths drawn for payoff diagrams of path-dependent options
+const PAYOFF_SIMULATION_PATHS = 4000;
+const PAYOFF_SIMULATION_STEPS = 200;
+
+const barrierTypeLabels: Record<BarrierType, string> = {
+  "down-and-out": "Down-and-Out",
+  "down-and-in": "Down-and-In",
+  "up-and-out": "Up-and-Out",
+  "up-and-in": "Up-and-In"
+};
+
+// How often the barrier is checked, in years (0 for continuous monitoring)
+const barrierMonitoringIntervals = {
+  continuous: 0,
+  hourly: 1 / (365 * 24),
+  daily: 1 / 365,
+  weekly: 7 / 365
+};
+
+const averageTypeLabels: Record<AverageType, string> = {
+  "average-price": "Average Price",
+  "average-strike": "Average Strike"
+};
+
+const asianEngineLabels: Record<AsianEngine, string> = {
+  "geometric": "Geometric (Closed Form)",
+  "turnbull-wakeman": "Arithmetic: Turnbull-Wakeman",
+  "monte-carlo": "Arithmetic: Monte Carlo"
+};
+
+// Time between average fixings, in years
+const fixingFrequencyIntervals = {
+  hourly: 1 / (365 * 24),
+  daily: 1 / 365,
+  weekly: 7 / 365
+};
+
+// Longest averaging window accepted, in days
+const MAX_AVERAGING_WINDOW_DAYS = 3650;
+
 interface DVOLResponse {
   volatility: number;
   timestamp: number;
@@ -56,8 +250,81 @@ export const OptionCalculator = () => {
   const [dvolData, setDvolData] = useState<{ btc: number | null; eth: number | null }>({ btc: null, eth: null });
   const [dvolWs, setDvolWs] = useState<WebSocket | null>(null);
   const [riskFreeRate, setRiskFreeRate] = useState<number>(0);
+  const [dividendYield, setDividendYield] = useState<number>(0);
+  const [expectedReturn, setExpectedReturn] = useState<number>(10);
+  const [underlyingType, setUnderlyingType] = useState<UnderlyingType>("spot");
+  const [foreignRate, setForeignRate] = useState<number>(0);
+  const [foreignCurrency, setForeignCurrency] = useState<string>("EUR");
+  const [domesticCurrency, setDomesticCurrency] = useState<string>("USD");
+  const [pipSize, setPipSize] = useState<number>(DEFAULT_PIP_SIZE);
+  const [settlement, setSettlement] = useState<Settlement>("linear");
+  const [quantoCurrency, setQuantoCurrency] = useState<string>("USDT");
+  const [quantoFxRate, setQuantoFxRate] = useState<number>(1);
+  const [payoutRate, setPayoutRate] = useState<number>(0);
+  const [fxVolatility, setFxVolatility] = useState<number>(10);
+  const [quantoCorrelation, setQuantoCorrelation] = useState<number>(0);
+  const [displayCurrency, setDisplayCurrency] = useState<"usd" | "coin">("coin");
+  const [exerciseStyle, setExerciseStyle] = useState<"european" | "american">("european");
+  const [americanEngine, setAmericanEngine] = useState<AmericanEngine>("binomial");
+  const [treeSteps, setTreeSteps] = useState<number>(200);
+  const [gridSize, setGridSize] = useState<GridSize>(DEFAULT_GRID_SIZE);
+  const [strikeInput, setStrikeInput] = useState<"price" | "delta">("price");
+  const [targetDelta, setTargetDelta] = useState<number>(0.25);
+  const [deltaConvention, setDeltaConvention] = useState<DeltaConvention>("spot");
   const [optionType, setOptionType] = useState<"call" | "put">("call");
-  const [timeMethod, setTimeMethod] = useState<"date" | "duration">("date");
+  const [optionStyle, setOptionStyle] = useState<OptionStyle>("vanilla");
+  const [cashPayout, setCashPayout] = useState<number>(100);
+  const [barrierType, setBarrierType] = useState<BarrierType>("up-and-out");
+  const [barrierLevel, setBarrierLevel] = useState<number>(120);
+  const [barrierRebate, setBarrierRebate] = useState<number>(0);
+  const [barrierMonitoring, setBarrierMonitoring] = useState<keyof typeof barrierMonitoringIntervals>("continuous");
+  const [barrierEngine, setBarrierEngine] = useState<BarrierEngine>("analytic");
+  const [monteCarloPaths, setMonteCarloPaths] = useState<number>(10000);
+  const [averageType, setAverageType] = useState<AverageType>("average-price");
+  const [asianEngine, setAsianEngine] = useState<AsianEngine>("turnbull-wakeman");
+  const [averagingWindow, setAveragingWindow] = useState<number>(30);
+  const [fixingFrequency, setFixingFrequency] = useState<keyof typeof fixingFrequencyIntervals>("daily");
+  const [fixedObservations, setFixedObservations] = useState<number>(0);
+  const [fixedAverage, setFixedAverage] = useState<number>(100);
+  const [lookbackStrike, setLookbackStrike] = useState<LookbackStrike>("floating");
+  const [runningMinimum, setRunningMinimum] = useState<number>(0);
+  const [runningMaximum, setRunningMaximum] = useState<number>(0);
+  const [chooserType, setChooserType] = useState<ChooserType>("simple");
+  const [chooseDays, setChooseDays] = useState<number>(10);
+  const [chooserPutStrike, setChooserPutStrike] = useState<number>(100);
+  const [chooserPutExpiryDays, setChooserPutExpiryDays] = useState<number>(45);
+  const [compoundUnderlying, setCompoundUnderlying] = useState<"call" | "put">("call");
+  const [compoundStrike, setCompoundStrike] = useState<number>(5);
+  const [compoundExpiryDays, setCompoundExpiryDays] = useState<number>(10);
+  const [pricingModel, setPricingModel] = useState<PricingModel>("black-scholes");
+  const [compareLegacyCDF, setCompareLegacyCDF] = useState<boolean>(false);
+  const [hestonParams, setHestonParams] = useState<HestonParameters>({
+    v0: 1,
+    kappa: 2,
+    theta: 1,
+    xi: 1.5,
+    rho: -0.3
+  });
+  const [sabrParams, setSabrParams] = useState<SabrParameters>({
+    alpha: 0.8,
+    beta: 1,
+    rho: -0.2,
+    nu: 1.5
+  });
+  const [normalVolatility, setNormalVolatility] = useState<number>(80);
+  const [jumpIntensity, setJumpIntensity] = useState<number>(2);
+  const [jumpMean, setJumpMean] = useState<number>(-5);
+  const [jumpVolatility, setJumpVolatility] = useState<number>(10);
+  const [monteCarloProcess, setMonteCarloProcess] = useState<MonteCarloProcess>("gbm");
+  const [monteCarloSeed, setMonteCarloSeed] = useState<number>(42);
+  const [antitheticPaths, setAntitheticPaths] = useState<boolean>(true);
+  const [controlVariate, setControlVariate] = useState<boolean>(true);
+  const [solveFor, setSolveFor] = useState<"premium" | "volatility">("premium");
+  const [marketPremium, setMarketPremium] = useState<number>(10);
+  const [timeMethod, setTimeMethod] = useState<TimeMethod>("date");
+  const [perpetualProduct, setPerpetualProduct] = useState<PerpetualProduct>("everlasting");
+  const [fundingPeriodHours, setFundingPeriodHours] = useState<number>(24);
+  const [perpetualPower, setPerpetualPower] = useState<number>(2);
   
   // Date expiry state
   const [expiryDate, setExpiryDate] = useState<Date>(() => {
@@ -74,7 +341,41 @@ export const OptionCalculator = () => {
   const [seconds, setSeconds] = useState<number>(0);
   
   // Calculation results
+  const [pricingInputs, setPricingInputs] = useState<PricingInputs | null>(null);
+  const [pricedVolatility, setPricedVolatility] = useState<number>(0);
   const [premium, setPremium] = useState<number>(0);
+  const [earlyExercisePremium, setEarlyExercisePremium] = useState<number>(0);
+  const [monteCarloError, setMonteCarloError] = useState<number | null>(null);
+  const [monteCarloInterval, setMonteCarloInterval] = useState<[number, number] | null>(null);
+  const [expectedAverage, setExpectedAverage] = useState<number>(0);
+  const [quantoComparison, setQuantoComparison] = useState<{
+    plainPremium: number;     // Black-Scholes premium in the underlying's currency
+    driftAdjustment: number;  // Reduction in the asset's drift, as a decimal
+  } | null>(null);
+  const [simulatedValues, setSimulatedValues] = useState<TerminalValueSample[]>([]);
+  const [compoundPricing, setCompoundPricing] = useState<{
+    remainingTime: number;  // Life of the underlying option left at the compound expiry, in years
+    volatility: number;
+    riskFreeRate: number;
+    carryYield: number;
+  } | null>(null);
+  const [blackScholesPremium, setBlackScholesPremium] = useState<number>(0);
+  const [legacyCDFPremium, setLegacyCDFPremium] = useState<number | null>(null);
+  const [volatilitySmile, setVolatilitySmile] = useState<{ strike: number; volatility: number }[]>([]);
+  const [smileForward, setSmileForward] = useState<number>(0);
+  const [engineComparison, setEngineComparison] = useState<{ engine: AmericanEngine; premium: number }[]>([]);
+  const [referencePremium, setReferencePremium] = useState<number>(0);
+  const [impliedVolatility, setImpliedVolatility] = useState<number | null>(null);
+  const [impliedVolatilityError, setImpliedVolatilityError] = useState<string | null>(null);
+  const [strikeError, setStrikeError] = useState<string | null>(null);
+  const [foreignRho, setForeignRho] = useState<number | null>(null);
+  const [probabilities, setProbabilities] = useState<{
+    riskNeutralITM: number;
+    realWorldITM: number;
+    riskNeutralTouch: number;
+    realWorldTouch: number;
+    expectedMove: ExpectedMove;
+  } | null>(null);
   const [greeks, setGreeks] = useState({
     delta: 0,
     gamma: 0,
@@ -82,6 +383,8 @@ export const OptionCalculator = () => {
     vega: 0,
     rho: 0
   });
+  const [advancedGreeks, setAdvancedGreeks] = useState<ReturnType<typeof calculateAdvancedGreeks> | null>(null);
+  const [showAdvancedGreeks, setShowAdvancedGreeks] = useState<boolean>(false);
   
   // Animation states
   const [animatePremium, setAnimatePremium] = useState(false);
@@ -147,6 +450,8 @@ export const OptionCalculator = () => {
       console.log('Setting new price:', price);
       setSpotPrice(price);
       setStrikePrice(price); // Set strike price equal to spot price
+      setBarrierLevel(Number((price * 1.2).toFixed(2))); // Keep the barrier 20% away from the new price
+      setFixedAverage(price);
       toast.success(`Updated ${getAssetDisplayName(asset)} price to $${price.toLocaleString()}`);
     } catch (error) {
       console.error('Error fetching price:', error);
@@ -305,9 +610,127 @@ export const OptionCalculator = () => {
     track('option_type_changed', { type: value });
   };
 
+  // Quanto settlement prices European vanilla spot options under Black-Scholes only
+  const leaveQuantoSettlement = () => {
+    setSettlement((prev) => (prev === "quanto" ? "linear" : prev));
+  };
+
+  // Track underlying type changes
+  const handleUnderlyingTypeChange = (value: UnderlyingType) => {
+    setUnderlyingType(value);
+    if (value !== "spot") {
+      leaveQuantoSettlement();
+    }
+    track('underlying_type_changed', { type: value });
+  };
+
+  // Track settlement changes
+  const handleSettlementChange = (value: Settlement) => {
+    setSettlement(value);
+    track('settlement_changed', { settlement: value });
+  };
+
+  // Track option style changes
+  const handleOptionStyleChange = (value: OptionStyle) => {
+    setOptionStyle(value);
+    if (value !== "vanilla") {
+      // Early exercise and the implied volatility solver apply to vanilla options only
+      setExerciseStyle("european");
+      setSolveFor("premium");
+      leaveQuantoSettlement();
+    }
+    track('option_style_changed', { style: value });
+  };
+
+  // Track exercise style changes
+  const handleExerciseStyleChange = (value: "european" | "american") => {
+    setExerciseStyle(value);
+    if (value === "american") {
+      // The implied volatility solver inverts the European formula only
+      setSolveFor("premium");
+      leaveQuantoSettlement();
+    }
+    track('exercise_style_changed', { style: value });
+  };
+
+  // Track pricing model changes
+  const handlePricingModelChange = (value: PricingModel) => {
+    setPricingModel(value);
+    if (value !== "black-scholes") {
+      // Other models price European vanilla options only
+      setOptionStyle("vanilla");
+      setExerciseStyle("european");
+      setSolveFor("premium");
+      leaveQuantoSettlement();
+    }
+    if (value === "bachelier") {
+      // Prices can go negative, which inverse settlement cannot pay
+      setSettlement("linear");
+    }
+    if (volatilityOutputModels.includes(value)) {
+      // Strikes from delta need the volatility as an input
+      setStrikeInput("price");
+    }
+    track('pricing_model_changed', { model: value });
+  };
+
+  // Track the legacy normal CDF comparison
+  const handleCompareLegacyCDFChange = (value: boolean) => {
+    setCompareLegacyCDF(value);
+    track('legacy_cdf_comparison_changed', { enabled: value });
+  };
+
+  // Price the last American inputs with every engine and a high-step binomial reference.
+  // This is run on request rather than on every recalculation, as it is slow.
+  const handleCompareEngines = () => {
+    if (!pricingInputs) {
+      return;
+    }
+    const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield } = pricingInputs;
+    const priceWith = (engine: AmericanEngine, settings: AmericanEngineSettings) => calculateAmericanPremium(
+      engine, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, settings, carryYield
+    );
+    const engines = Object.keys(americanEngineLabels) as AmericanEngine[];
+    setEngineComparison(engines.map((engine) => ({ engine, premium: priceWith(engine, { treeSteps, gridSize }) })));
+    setReferencePremium(priceWith("binomial", { treeSteps: REFERENCE_TREE_STEPS, gridSize }));
+    track('engine_comparison_run', { engine: americanEngine });
+  };
+
+  // Track Monte Carlo process changes
+  const handleMonteCarloProcessChange = (value: MonteCarloProcess) => {
+    setMonteCarloProcess(value);
+    track('monte_carlo_process_changed', { process: value });
+  };
+
+  // Track strike input changes
+  const handleStrikeInputChange = (value: "price" | "delta") => {
+    setStrikeInput(value);
+    track('strike_input_changed', { input: value });
+  };
+
+  // Track solve mode changes
+  const handleSolveForChange = (value: "premium" | "volatility") => {
+    setSolveFor(value);
+    if (value === "volatility") {
+      // Strikes from delta need the volatility as an input
+      setStrikeInput("price");
+      leaveQuantoSettlement();
+    }
+    track('solve_for_changed', { target: value });
+  };
+
   // Track time method changes
-  const handleTimeMethodChange = (value: "date" | "duration") => {
-    setTimeMethod(value as "date" | "duration");
+  const handleTimeMethodChange = (value: TimeMethod) => {
+    setTimeMethod(value);
+    if (value === "perpetual") {
+      // Perpetuals are priced as European vanilla strips under Black-Scholes
+      setOptionStyle("vanilla");
+      setExerciseStyle("european");
+      setPricingModel("black-scholes");
+      setSolveFor("premium");
+      setStrikeInput("price");
+      leaveQuantoSettlement();
+    }
     track('time_method_changed', { method: value });
   };
 
@@ -342,60 +765,439 @@ export const OptionCalculator = () => {
     setTimeMethod("date");
   };
 
-  // Handle calculations
+  // Resolve the market inputs: time to expiry, a strike quoted by delta and the
+  // volatility, which some models and the implied volatility mode solve for.
+  // Invalid inputs clear them, so the last results stay on screen until fixed.
   useEffect(() => {
     try {
       let timeToExpiry: number;
+      const isPerpetual = timeMethod === "perpetual";
+      const fundingPeriod = fundingPeriodHours / (365 * 24);
       
       if (timeMethod === "date") {
         // Create a date object with the selected date and time
         const expiryDateTime = new Date(expiryDate);
         expiryDateTime.setHours(parseInt(expiryHour), parseInt(expiryMinute), 0);
         timeToExpiry = dateToTimeToExpiry(expiryDateTime);
+      } else if (isPerpetual) {
+        // Perpetuals never expire; the funding period is the horizon they reprice over
+        timeToExpiry = fundingPeriod;
       } else {
         timeToExpiry = durationToTimeToExpiry(hours, minutes, seconds);
       }
       
-      // Validate inputs
+      // Validate inputs; the Bachelier model accepts zero and negative prices
+      const isBachelier = pricingModel === "bachelier";
       if (
-        spotPrice <= 0 ||
-        strikePrice <= 0 ||
-        volatility <= 0 ||
+        (!isBachelier && (spotPrice <= 0 || strikePrice <= 0)) ||
+        (isBachelier && normalVolatility <= 0) ||
+        (solveFor === "premium" ? !volatilityOutputModels.includes(pricingModel) && volatility <= 0 : marketPremium <= 0) ||
         timeToExpiry <= 0
       ) {
+        setPricingInputs(null);
         return; // Don't calculate with invalid inputs
       }
       
       // Convert percentage inputs to decimals for calculation
-      const volatilityDecimal = volatility / 100;
+      let volatilityDecimal = volatility / 100;
       const riskFreeRateDecimal = riskFreeRate / 100;
+      const dividendYieldDecimal = dividendYield / 100;
       
-      // Calculate option premium
-      const optionPremium = calculateOptionPremium(
-        spotPrice,
-        strikePrice,
-        timeToExpiry,
-        volatilityDecimal,
-        riskFreeRateDecimal,
-        optionType === "call"
-      );
+      // A futures price already embeds carry, so Black-76 discounts it at the risk-free rate;
+      // a foreign currency earns the foreign rate, which Garman-Kohlhagen treats as the yield
+      const isFuture = underlyingType === "future";
+      const isFx = underlyingType === "fx";
+      const foreignRateDecimal = foreignRate / 100;
+      const carryYieldDecimal = isFuture
+        ? riskFreeRateDecimal
+        : isFx ? foreignRateDecimal : dividendYieldDecimal;
+      
+      // A strike quoted by delta is solved for, rounded, and the calculation reruns with it
+      if (strikeInput === "delta") {
+        try {
+          const solvedStrike = Number(calculateStrikeFromDelta(
+            targetDelta,
+            spotPrice,
+            timeToExpiry,
+            volatilityDecimal,
+            riskFreeRateDecimal,
+            optionType === "call",
+            deltaConvention,
+            carryYieldDecimal
+          ).toPrecision(6));
+          setStrikeError(null);
+          if (solvedStrike !== strikePrice) {
+            setStrikePrice(solvedStrike);
+            return;
+          }
+        } catch (error) {
+          if (!(error instanceof StrikeSolverError)) {
+            throw error;
+          }
+          setStrikeError(error.message);
+          setPricingInputs(null);
+          return;
+        }
+      }
+      
+      // Inverse options are quoted in coin, so convert the quoted premium back to USD
+      const marketPremiumUsd = settlement === "inverse" && displayCurrency === "coin"
+        ? marketPremium * spotPrice
+        : marketPremium;
+      
+      // In implied volatility mode the quoted premium drives the volatility
+      if (solveFor === "volatility") {
+        try {
+          volatilityDecimal = calculateImpliedVolatility(
+            marketPremiumUsd,
+            spotPrice,
+            strikePrice,
+            timeToExpiry,
+            riskFreeRateDecimal,
+            optionType === "call",
+            carryYieldDecimal
+          );
+          setImpliedVolatility(volatilityDecimal * 100);
+          setImpliedVolatilityError(null);
+        } catch (error) {
+          if (error instanceof ImpliedVolatilityError) {
+            setImpliedVolatility(null);
+            setImpliedVolatilityError(error.message);
+            setPricingInputs(null);
+            return;
+          }
+          throw error;
+        }
+      }
+      
+      // SABR gives the volatility at this strike, which then prices as Black-Scholes
+      if (pricingModel === "sabr") {
+        const forwardPrice = spotPrice * Math.exp((riskFreeRateDecimal - carryYieldDecimal) * timeToExpiry);
+        volatilityDecimal = calculateSabrVolatility(forwardPrice, strikePrice, timeToExpiry, sabrParams);
+        if (volatilityDecimal <= 0) {
+          setPricingInputs(null);
+          return;
+        }
+        setImpliedVolatility(volatilityDecimal * 100);
+        setImpliedVolatilityError(null);
+        
+        // Smile across strikes around the current strike
+        const lowStrike = strikePrice * (1 - SMILE_STRIKE_RANGE);
+        const strikeStep = 2 * SMILE_STRIKE_RANGE * strikePrice / (SMILE_POINTS - 1);
+        setVolatilitySmile(Array.from({ length: SMILE_POINTS }, (_, i) => {
+          const strike = lowStrike + i * strikeStep;
+          return {
+            strike: Number(strike.toFixed(2)),
+            volatility: calculateSabrVolatility(forwardPrice, strike, timeToExpiry, sabrParams) * 100
+          };
+        }));
+        setSmileForward(forwardPrice);
+      }
+      
+      // Show the Black volatility equivalent to the Bachelier normal volatility
+      if (isBachelier) {
+        const forwardPrice = spotPrice * Math.exp((riskFreeRateDecimal - carryYieldDecimal) * timeToExpiry);
+        setImpliedVolatility(null);
+        if (forwardPrice <= 0 || strikePrice <= 0) {
+          setImpliedVolatilityError("No lognormal volatility exists for a non-positive forward or strike");
+        } else {
+          try {
+            setImpliedVolatility(convertNormalToLognormalVolatility(normalVolatility, forwardPrice, strikePrice, timeToExpiry) * 100);
+            setImpliedVolatilityError(null);
+          } catch (error) {
+            if (!(error instanceof ImpliedVolatilityError)) {
+              throw error;
+            }
+            setImpliedVolatilityError(error.message);
+          }
+        }
+      }
       
-      // Calculate Greeks
-      const optionGreeks = calculateGreeks(
+      setPricingInputs({
         spotPrice,
         strikePrice,
         timeToExpiry,
-        volatilityDecimal,
-        riskFreeRateDecimal,
-        optionType === "call"
+        volatility: volatilityDecimal,
+        riskFreeRate: riskFreeRateDecimal,
+        isCall: optionType === "call",
+        underlying: underlyingType,
+        carryYield: carryYieldDecimal,
+        dividendYield: dividendYieldDecimal
+      });
+    } catch (error) {
+      console.error("Calculation error:", error);
+      toast.error("Error calculating option values. Please check your inputs.");
+    }
+  }, [
+    spotPrice,
+    strikePrice,
+    strikeInput,
+    targetDelta,
+    deltaConvention,
+    volatility,
+    riskFreeRate,
+    dividendYield,
+    underlyingType,
+    foreignRate,
+    optionType,
+    pricingModel,
+    sabrParams,
+    normalVolatility,
+    solveFor,
+    marketPremium,
+    settlement,
+    displayCurrency,
+    timeMethod,
+    fundingPeriodHours,
+    expiryDate,
+    expiryHour,
+    expiryMinute,
+    hours,
+    minutes,
+    seconds
+  ]);
+  
+  // What is priced and how, which only changes with the model and option settings
+  const optionSpecification = useMemo((): OptionSpecification => {
+    if (timeMethod === "perpetual") {
+      const fundingPeriod = fundingPeriodHours / (365 * 24);
+      return perpetualProduct === "power"
+        ? { kind: "power-perpetual", power: perpetualPower, fundingPeriod }
+        : { kind: "everlasting", fundingPeriod };
+    }
+    
+    const jumps = {
+      intensity: jumpIntensity,
+      meanJump: jumpMean / 100,
+      jumpVolatility: jumpVolatility / 100
+    };
+    switch (pricingModel) {
+      case "heston":
+        return { kind: "heston", parameters: hestonParams };
+      case "bachelier":
+        return { kind: "bachelier", normalVolatility };
+      case "merton":
+        return { kind: "merton", jumps };
+      case "monte-carlo":
+        return {
+          kind: "monte-carlo",
+          settings: {
+            paths: monteCarloPaths,
+            steps: 1,
+            seed: monteCarloSeed,
+            antithetic: antitheticPaths,
+            jumps: monteCarloProcess === "jump" ? jumps : undefined
+          },
+          controlVariate
+        };
+    }
+    
+    switch (optionStyle) {
+      case "cash-or-nothing":
+      case "asset-or-nothing":
+        return { kind: "digital", digitalType: optionStyle, cashPayout };
+      case "barrier":
+        return {
+          kind: "barrier",
+          engine: barrierEngine,
+          barrier: {
+            type: barrierType,
+            level: barrierLevel,
+            rebate: barrierRebate,
+            monitoringInterval: barrierMonitoringIntervals[barrierMonitoring]
+          },
+          gridSize,
+          paths: monteCarloPaths
+        };
+      case "asian":
+        return {
+          kind: "asian",
+          engine: asianEngine,
+          averageType,
+          // Remaining fixings of the averaging window, which always ends at expiry
+          scheduleFor: (time: number) => buildAveragingSchedule(
+            time,
+            averagingWindow / 365,
+            fixingFrequencyIntervals[fixingFrequency],
+            fixedObservations,
+            fixedAverage
+          ),
+          paths: monteCarloPaths
+        };
+      case "lookback":
+        return { kind: "lookback", strikeType: lookbackStrike, runningMinimum, runningMaximum };
+      case "chooser":
+        return {
+          kind: "chooser",
+          chooseTime: chooseDays / 365,
+          putTerms: chooserType === "complex"
+            ? { strike: chooserPutStrike, expiry: chooserPutExpiryDays / 365 }
+            : undefined
+        };
+      case "compound":
+        return {
+          kind: "compound",
+          underlyingIsCall: compoundUnderlying === "call",
+          compoundStrike,
+          compoundExpiry: compoundExpiryDays / 365
+        };
+    }
+    
+    if (exerciseStyle === "american") {
+      return { kind: "american", engine: americanEngine, settings: { treeSteps, gridSize } };
+    }
+    if (settlement === "quanto") {
+      return {
+        kind: "quanto",
+        payoutRate: payoutRate / 100,
+        fxVolatility: fxVolatility / 100,
+        correlation: quantoCorrelation,
+        fxRate: quantoFxRate
+      };
+    }
+    return { kind: "vanilla" };
+  }, [
+    timeMethod,
+    perpetualProduct,
+    perpetualPower,
+    fundingPeriodHours,
+    pricingModel,
+    hestonParams,
+    normalVolatility,
+    jumpIntensity,
+    jumpMean,
+    jumpVolatility,
+    monteCarloProcess,
+    monteCarloPaths,
+    monteCarloSeed,
+    antitheticPaths,
+    controlVariate,
+    optionStyle,
+    cashPayout,
+    barrierType,
+    barrierLevel,
+    barrierRebate,
+    barrierMonitoring,
+    barrierEngine,
+    gridSize,
+    averageType,
+    asianEngine,
+    averagingWindow,
+    fixingFrequency,
+    fixedObservations,
+    fixedAverage,
+    lookbackStrike,
+    runningMinimum,
+    runningMaximum,
+    chooserType,
+    chooseDays,
+    chooserPutStrike,
+    chooserPutExpiryDays,
+    compoundUnderlying,
+    compoundStrike,
+    compoundExpiryDays,
+    exerciseStyle,
+    americanEngine,
+    treeSteps,
+    settlement,
+    payoutRate,
+    fxVolatility,
+    quantoCorrelation,
+    quantoFxRate
+  ]);
+  
+  // A complex chooser must be decided while both legs are still alive; otherwise it prices at 0
+  const chooserTermsError = useMemo(() => {
+    if (!pricingInputs || optionSpecification.kind !== "chooser" || !optionSpecification.putTerms) {
+      return null;
+    }
+    const callExpiryDays = pricingInputs.timeToExpiry * 365;
+    return chooseDays >= Math.min(callExpiryDays, chooserPutExpiryDays)
+      ? `The choice date must come before both expiries (call ${callExpiryDays.toFixed(1)} days, put ${chooserPutExpiryDays} days)`
+      : null;
+  }, [pricingInputs, optionSpecification, chooseDays, chooserPutExpiryDays]);
+  
+  // Fixings of a seasoned Asian option that have passed but were not entered as fixed observations
+  const missingFixings = useMemo(() => pricingInputs && optionSpecification.kind === "asian"
+    ? optionSpecification.scheduleFor(pricingInputs.timeToExpiry).missingCount
+    : 0, [pricingInputs, optionSpecification]);
+  
+  // Discrete barrier checks before expiry, of which Monte Carlo simulates at most MAX_MONITORING_DATES
+  const barrierMonitoringDates = pricingInputs && barrierMonitoring !== "continuous"
+    ? countMonitoringDates(pricingInputs.timeToExpiry, barrierMonitoringIntervals[barrierMonitoring])
+    : 0;
+  
+  // Price the option and find its Greeks
+  useEffect(() => {
+    if (!pricingInputs) {
+      return;
+    }
+    
+    try {
+      const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield, dividendYield } = pricingInputs;
+      const pricing = priceOption(pricingInputs, optionSpecification);
+      setEngineComparison([]);
+      
+      // Express the Heston price as a Black-Scholes implied volatility
+      let pricedVolatility = volatility;
+      if (optionSpecification.kind === "heston") {
+        try {
+          pricedVolatility = calculateImpliedVolatility(
+            pricing.premium,
+            spotPrice,
+            strikePrice,
+            timeToExpiry,
+            riskFreeRate,
+            isCall,
+            carryYield
+          );
+          setImpliedVolatility(pricedVolatility * 100);
+          setImpliedVolatilityError(null);
+        } catch (error) {
+          if (!(error instanceof ImpliedVolatilityError)) {
+            throw error;
+          }
+          setImpliedVolatility(null);
+          setImpliedVolatilityError(error.message);
+        }
+      }
+      setPricedVolatility(pricedVolatility);
+      
+      // In implied volatility mode the quoted premium is the price; inverse options
+      // quote it in coin, so convert it back to USD
+      const optionPremium = solveFor === "volatility"
+        ? settlement === "inverse" && displayCurrency === "coin" ? marketPremium * spotPrice : marketPremium
+        : pricing.premium;
+      
+      setMonteCarloError(pricing.simulation ? pricing.simulation.standardError : null);
+      setMonteCarloInterval(pricing.simulation ? pricing.simulation.confidenceInterval : null);
+      setBlackScholesPremium(pricing.closedFormPremium ?? 0);
+      setEarlyExercisePremium(pricing.earlyExercisePremium ?? 0);
+      setForeignRho(pricing.foreignRho);
+      
+      // The same price with the legacy CDF, to show its error
+      setLegacyCDFPremium(
+        compareLegacyCDF && solveFor === "premium" && optionSpecification.kind === "vanilla" && pricingInputs.underlying === "spot"
+          ? calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield, "abramowitz-stegun")
+          : null
       );
       
+      // The plain price ignores the currency link, to show what the quanto adjustment is worth
+      setQuantoComparison(optionSpecification.kind === "quanto" ? {
+        plainPremium: calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield),
+        driftAdjustment: calculateQuantoDriftAdjustment(
+          volatility,
+          optionSpecification.fxVolatility,
+          optionSpecification.correlation
+        )
+      } : null);
+      
       // Trigger animation effect
       setAnimatePremium(true);
       
       // Update state with calculation results
       setPremium(optionPremium);
-      setGreeks(optionGreeks);
+      setGreeks(pricing.greeks);
       
       // Reset animation state after animation completes
       setTimeout(() => {
@@ -421,20 +1223,112 @@ export const OptionCalculator = () => {
       toast.error("Error calculating option values. Please check your inputs.");
     }
   }, [
-    spotPrice,
-    strikePrice,
-    volatility,
-    riskFreeRate,
+    pricingInputs,
+    optionSpecification,
+    compareLegacyCDF,
+    solveFor,
+    marketPremium,
+    settlement,
+    displayCurrency,
     optionType,
-    timeMethod,
-    expiryDate,
-    expiryHour,
-    expiryMinute,
-    hours,
-    minutes,
-    seconds
+    timeMethod
   ]);
   
+  // Higher-order Greeks, probabilities and other figures derived from the inputs,
+  // which are cheap and so do not wait on the pricing engines
+  useEffect(() => {
+    if (!pricingInputs) {
+      return;
+    }
+    
+    const { spotPrice, strikePrice, timeToExpiry, riskFreeRate, isCall, carryYield } = pricingInputs;
+    const { kind } = optionSpecification;
+    const volatility = kind === "heston" ? pricedVolatility : pricingInputs.volatility;
+    
+    // Higher-order Greeks use the closed form, so they only apply to European vanilla
+    // options under Black-Scholes. A quanto's drift moves with the volatility, which
+    // the closed form does not see.
+    const isClosedFormVanilla = kind === "vanilla" ||
+      (kind === "monte-carlo" && !optionSpecification.settings.jumps);
+    setAdvancedGreeks(isClosedFormVanilla
+      ? calculateAdvancedGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield)
+      : null);
+    
+    // A quanto is priced in the payout currency, where the asset grows at its own rate
+    // less the drift adjustment; as a rate and yield that is the payout rate and this yield
+    const riskNeutralRate = kind === "quanto" ? optionSpecification.payoutRate : riskFreeRate;
+    const riskNeutralYield = kind === "quanto"
+      ? optionSpecification.payoutRate - riskFreeRate + pricingInputs.dividendYield +
+        calculateQuantoDriftAdjustment(volatility, optionSpecification.fxVolatility, optionSpecification.correlation)
+      : carryYield;
+    
+    // Lognormal probabilities at the pricing volatility; the risk-neutral drift is the
+    // risk-free rate and the real-world drift is the user's expected return
+    const expectedReturnDecimal = expectedReturn / 100;
+    setProbabilities(kind === "bachelier" || kind === "everlasting" || kind === "power-perpetual" ? null : {
+      riskNeutralITM: calculateProbabilityITM(
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        volatility,
+        riskNeutralRate,
+        isCall,
+        riskNeutralYield
+      ),
+      realWorldITM: calculateProbabilityITM(
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        volatility,
+        expectedReturnDecimal,
+        isCall,
+        carryYield
+      ),
+      riskNeutralTouch: calculateTouchProbability(
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        volatility,
+        riskNeutralRate,
+        riskNeutralYield
+      ),
+      realWorldTouch: calculateTouchProbability(
+        spotPrice,
+        strikePrice,
+        timeToExpiry,
+        volatility,
+        expectedReturnDecimal,
+        carryYield
+      ),
+      expectedMove: calculateExpectedMove(spotPrice, timeToExpiry, volatility)
+    });
+    
+    setExpectedAverage(kind === "asian"
+      ? calculateExpectedAverage(spotPrice, riskFreeRate, optionSpecification.scheduleFor(timeToExpiry), carryYield)
+      : 0);
+    setCompoundPricing(kind === "compound" ? {
+      remainingTime: Math.max(0, timeToExpiry - optionSpecification.compoundExpiry),
+      volatility: volatility,
+      riskFreeRate,
+      carryYield
+    } : null);
+  }, [pricingInputs, optionSpecification, pricedVolatility, expectedReturn]);
+  
+  // Lookback and chooser payoffs depend on the whole path, so the payoff diagram
+  // averages simulated payoffs by final price instead of drawing a payoff line
+  useEffect(() => {
+    if (!pricingInputs) {
+      return;
+    }
+    setSimulatedValues(simulatePathPayoffs(
+      pricingInputs,
+      optionSpecification,
+      PAYOFF_SIMULATION_PATHS,
+      PAYOFF_SIMULATION_STEPS,
+      monteCarloSeed
+    ));
+  }, [pricingInputs, optionSpecification, monteCarloSeed]);
+  
   // Generate time options for select components
   const hourOptions = Array.from({ length: 24 }, (_, i) => 
     i.toString().padStart(2, "0")
@@ -448,16 +1342,54 @@ export const OptionCalculator = () => {
   const handleNumericInput = (
     value: string,
     setter: React.Dispatch<React.SetStateAction<number>>,
-    min: number = 0
+    min: number = 0,
+    max: number = Infinity
   ) => {
     const parsed = parseFloat(value);
-    if (!isNaN(parsed) && parsed >= min) {
+    if (!isNaN(parsed) && parsed >= min && parsed <= max) {
       setter(parsed);
     } else if (value === "") {
       setter(0); // Allow clearing input
     }
   };
   
+  // Inverse options can be shown in the settlement coin instead of USD
+  const coinSymbol = selectedAsset !== "SELECT" ? selectedAsset : "COIN";
+  const showInCoin = settlement === "inverse" && displayCurrency === "coin";
+  const displayedPremium = showInCoin ? toInversePremium(premium, spotPrice) : premium;
+  const displayedGreeks = showInCoin ? calculateInverseGreeks(greeks, premium, spotPrice) : greeks;
+  
+  // A quanto option pays the USD intrinsic value converted at the fixed rate
+  const quantoValueAtExpiry = (price: number) =>
+    quantoFxRate * Math.max(0, optionType === "call" ? price - strikePrice : strikePrice - price);
+  
+  // A compound option pays its exercise value on the underlying option at the compound expiry
+  const compoundValueAtExpiry = (price: number) => {
+    if (!compoundPricing) {
+      return 0;
+    }
+    const underlyingValue = calculateOptionPremium(
+      price,
+      strikePrice,
+      compoundPricing.remainingTime,
+      compoundPricing.volatility,
+      compoundPricing.riskFreeRate,
+      compoundUnderlying === "call",
+      compoundPricing.carryYield
+    );
+    return Math.max(0, optionType === "call" ? underlyingValue - compoundStrike : compoundStrike - underlyingValue);
+  };
+  
+  const isPerpetual = timeMethod === "perpetual";
+  const isPowerPerpetual = isPerpetual && perpetualProduct === "power";
+  // Payoff a perpetual's funding is measured against, paid as if it expired now
+  const perpetualPayoff = isPowerPerpetual
+    ? Math.pow(spotPrice, perpetualPower)
+    : Math.max(0, optionType === "call" ? spotPrice - strikePrice : strikePrice - spotPrice);
+  
+  // The volatility field shows the implied volatility when it is solved for or produced by another model
+  const volatilityIsOutput = solveFor === "volatility" || volatilityOutputModels.includes(pricingModel);
+  
   return (
     <div className="w-full max-w-4xl mx-auto animate-fade-in p-4 sm:p-6">
       <div className="flex flex-col sm:flex-row items-center justify-between gap-2 mb-4 sm:mb-6">
@@ -509,67 +1441,421 @@ export const OptionCalculator = () => {
                   </Select>
                 </div>
                 
-                {/* Spot Price */}
-                <div className="option-input-group">
-                  <Label htmlFor="spotPrice" className="option-label">
-                    Current Price ($)
-                  </Label>
-                  <Input
-                    id="spotPrice"
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max="1000000"
-                    value={spotPrice}
-                    onChange={(e) => 
-                      handleNumericInput(e.target.value, setSpotPrice, 0.01)
-                    }
-                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                  />
-                </div>
-                
-                {/* Strike Price */}
-                <div className="option-input-group">
-                  <Label htmlFor="strikePrice" className="option-label">
-                    Strike Price ($)
-                  </Label>
-                  <Input
-                    id="strikePrice"
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    max="1000000"
-                    value={strikePrice}
-                    onChange={(e) => 
-                      handleNumericInput(e.target.value, setStrikePrice, 0.01)
-                    }
-                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
-                  />
-                </div>
-                
-                {/* Option Type */}
+                {/* Underlying Type */}
                 <div className="option-input-group">
-                  <Label className="option-label">Option Type</Label>
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Underlying Type</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Spot prices with Black-Scholes-Merton, or enter the futures price for the
+                            option's expiry to price with Black-76 (as on Deribit). FX prices an exchange
+                            rate with Garman-Kohlhagen, using a domestic and a foreign interest rate.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
                   <ToggleGroup
                     type="single"
-                    value={optionType}
-                    onValueChange={(value) => value && handleOptionTypeChange(value as "call" | "put")}
+                    value={underlyingType}
+                    onValueChange={(value) => value && handleUnderlyingTypeChange(value as UnderlyingType)}
                     className="justify-start"
                   >
                     <ToggleGroupItem 
-                      value="call" 
+                      value="spot" 
                       className={cn(
                         "transition-all duration-200 text-sm sm:text-base",
-                        optionType === "call" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        underlyingType === "spot" ? "bg-primary text-primary-foreground animate-scale" : ""
                       )}
                     >
-                      Call
+                      Spot
                     </ToggleGroupItem>
                     <ToggleGroupItem 
-                      value="put"
+                      value="future"
                       className={cn(
                         "transition-all duration-200 text-sm sm:text-base",
-                        optionType === "put" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        underlyingType === "future" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Future
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="fx"
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        underlyingType === "fx" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      FX
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                
+                {/* Currency Pair */}
+                {underlyingType === "fx" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="foreignCurrency" className="option-label">
+                      Foreign / Domestic / Pip Size
+                    </Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        id="foreignCurrency"
+                        type="text"
+                        maxLength={6}
+                        value={foreignCurrency}
+                        onChange={(e) => setForeignCurrency(e.target.value.toUpperCase())}
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                      <Input
+                        id="domesticCurrency"
+                        type="text"
+                        maxLength={6}
+                        value={domesticCurrency}
+                        onChange={(e) => setDomesticCurrency(e.target.value.toUpperCase())}
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                      <Input
+                        id="pipSize"
+                        type="number"
+                        step="0.0001"
+                        min="0.000001"
+                        value={pipSize}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setPipSize, 0.000001)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                  </div>
+                )}
+                
+                {/* Settlement */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Settlement</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Linear options are quoted and settled in USD. Inverse (coin-margined) options,
+                            like Deribit's BTC and ETH options, are quoted and settled in the underlying coin.
+                            Quanto options pay the USD payoff in another currency at a fixed rate.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    value={settlement}
+                    onValueChange={(value) => value && handleSettlementChange(value as Settlement)}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem 
+                      value="linear" 
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        settlement === "linear" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Linear
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="inverse"
+                      disabled={pricingModel === "bachelier"}
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        settlement === "inverse" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Inverse
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="quanto"
+                      disabled={
+                        underlyingType !== "spot" || pricingModel !== "black-scholes" || optionStyle !== "vanilla" ||
+                        exerciseStyle === "american" || solveFor === "volatility" || isPerpetual
+                      }
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        settlement === "quanto" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Quanto
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                
+                {/* Quanto Settings */}
+                {settlement === "quanto" && (
+                  <>
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="quantoCurrency" className="option-label">
+                          Payout Currency / Fixed Rate
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                The currency the option pays in, and the fixed units of it paid per $1 of
+                                payoff. The risk-free rate above is the USD rate.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="quantoCurrency"
+                          value={quantoCurrency}
+                          onChange={(e) => setQuantoCurrency(e.target.value.toUpperCase())}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="quantoFxRate"
+                          type="number"
+                          step="0.0001"
+                          min="0.0001"
+                          value={quantoFxRate}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setQuantoFxRate, 0.0001)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="payoutRate" className="option-label">
+                        Payout Rate, {quantoCurrency} (%)
+                      </Label>
+                      <Input
+                        id="payoutRate"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={payoutRate}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setPayoutRate)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="fxVolatility" className="option-label">
+                          FX Volatility (%) / Correlation
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Volatility of the {quantoCurrency} per USD exchange rate, and its correlation
+                                with the asset's USD price. A positive correlation lowers the asset's drift
+                                in {quantoCurrency} terms and so cheapens calls.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="fxVolatility"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={fxVolatility}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setFxVolatility)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="quantoCorrelation"
+                          type="number"
+                          step="0.05"
+                          min="-1"
+                          max="1"
+                          value={quantoCorrelation}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= -1 && parsed <= 1) {
+                              setQuantoCorrelation(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {/* Spot Price */}
+                <div className="option-input-group">
+                  <Label htmlFor="spotPrice" className="option-label">
+                    {underlyingType === "future"
+                      ? "Futures Price ($)"
+                      : underlyingType === "fx" ? `Spot Rate (${foreignCurrency}/${domesticCurrency})` : "Current Price ($)"}
+                  </Label>
+                  <Input
+                    id="spotPrice"
+                    type="number"
+                    step={underlyingType === "fx" ? "0.0001" : "0.01"}
+                    min={pricingModel === "bachelier" ? undefined : "0.01"}
+                    max="1000000"
+                    value={spotPrice}
+                    onChange={(e) => 
+                      handleNumericInput(e.target.value, setSpotPrice, pricingModel === "bachelier" ? -Infinity : 0.01)
+                    }
+                    className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                  />
+                </div>
+                
+                {/* Strike Price */}
+                <div className="option-input-group">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1">
+                      <Label htmlFor="strikePrice" className="option-label">
+                        {underlyingType === "fx" ? "Strike Rate" : "Strike Price ($)"}
+                      </Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                          </TooltipTrigger>
+                          <TooltipContent className="animate-scale">
+                            <p className="max-w-xs text-xs">
+                              Enter the strike directly, or quote it by delta (0.25 for a 25-delta
+                              call or put) and let the strike be solved at the current volatility.
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={strikeInput}
+                      onValueChange={(value) => value && handleStrikeInputChange(value as "price" | "delta")}
+                    >
+                      <ToggleGroupItem 
+                        value="price" 
+                        className={cn(
+                          "transition-all duration-200 text-xs sm:text-sm",
+                          strikeInput === "price" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        )}
+                      >
+                        Price
+                      </ToggleGroupItem>
+                      <ToggleGroupItem 
+                        value="delta"
+                        disabled={volatilityIsOutput || isPerpetual}
+                        className={cn(
+                          "transition-all duration-200 text-xs sm:text-sm",
+                          strikeInput === "delta" ? "bg-primary text-primary-foreground animate-scale" : ""
+                        )}
+                      >
+                        Delta
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                  {strikeInput === "delta" && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        id="targetDelta"
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max="0.99"
+                        value={targetDelta}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!isNaN(parsed) && parsed > 0 && parsed < 1) {
+                            setTargetDelta(parsed);
+                          }
+                        }}
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                      <Select
+                        value={deltaConvention}
+                        onValueChange={(value) => setDeltaConvention(value as DeltaConvention)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Convention" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(deltaConventionLabels) as DeltaConvention[]).map((convention) => (
+                            <SelectItem key={convention} value={convention}>
+                              {deltaConventionLabels[convention]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Input
+                    id="strikePrice"
+                    type="number"
+                    step={underlyingType === "fx" ? "0.0001" : "0.01"}
+                    min={pricingModel === "bachelier" ? undefined : "0.01"}
+                    max="1000000"
+                    value={strikePrice}
+                    onChange={(e) => 
+                      handleNumericInput(e.target.value, setStrikePrice, pricingModel === "bachelier" ? -Infinity : 0.01)
+                    }
+                    disabled={strikeInput === "delta" || isPowerPerpetual}
+                    className={cn(
+                      "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
+                      strikeInput === "delta" && "font-medium text-primary"
+                    )}
+                  />
+                  {strikeInput === "delta" && strikeError && (
+                    <p className="text-xs text-destructive mt-1">{strikeError}</p>
+                  )}
+                </div>
+                
+                {/* Option Type */}
+                <div className="option-input-group">
+                  <Label className="option-label">
+                    {optionStyle === "compound" ? "Compound Option Type" : "Option Type"}
+                  </Label>
+                  <ToggleGroup
+                    type="single"
+                    value={optionType}
+                    onValueChange={(value) => value && handleOptionTypeChange(value as "call" | "put")}
+                    disabled={optionStyle === "chooser" || isPowerPerpetual}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem 
+                      value="call" 
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        optionType === "call" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Call
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="put"
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        optionType === "put" ? "bg-primary text-primary-foreground animate-scale" : ""
                       )}
                     >
                       Put
@@ -577,6 +1863,1289 @@ export const OptionCalculator = () => {
                   </ToggleGroup>
                 </div>
                 
+                {/* Option Style */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Option Style</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Vanilla options pay the difference between the price and the strike. Digital
+                            (binary) options pay a fixed cash amount, or the asset itself, if they finish
+                            in the money.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Select
+                    value={optionStyle}
+                    onValueChange={(value) => handleOptionStyleChange(value as OptionStyle)}
+                    disabled={pricingModel !== "black-scholes" || isPerpetual}
+                  >
+                    <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                      <SelectValue placeholder="Option style" />
+                    </SelectTrigger>
+                    <SelectContent className="animate-scale">
+                      {(Object.keys(optionStyleLabels) as OptionStyle[]).map((style) => (
+                        <SelectItem key={style} value={style}>
+                          {optionStyleLabels[style]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {/* Cash Payout */}
+                {optionStyle === "cash-or-nothing" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="cashPayout" className="option-label">
+                      Cash Payout ($)
+                    </Label>
+                    <Input
+                      id="cashPayout"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={cashPayout}
+                      onChange={(e) => 
+                        handleNumericInput(e.target.value, setCashPayout)
+                      }
+                      className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                )}
+                
+                {/* Barrier Settings */}
+                {optionStyle === "barrier" && (
+                  <>
+                    <div className="option-input-group">
+                      <Label className="option-label">Barrier Type</Label>
+                      <Select
+                        value={barrierType}
+                        onValueChange={(value) => setBarrierType(value as BarrierType)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Barrier type" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(barrierTypeLabels) as BarrierType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {barrierTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="barrierLevel" className="option-label">
+                        Barrier Level ($)
+                      </Label>
+                      <Input
+                        id="barrierLevel"
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={barrierLevel}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setBarrierLevel, 0.01)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="barrierRebate" className="option-label">
+                          Rebate ($)
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Cash paid when a knock-out option hits the barrier, or at expiry when a
+                                knock-in option never does.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Input
+                        id="barrierRebate"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={barrierRebate}
+                        onChange={(e) => 
+                          handleNumericInput(e.target.value, setBarrierRebate)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label className="option-label">Monitoring</Label>
+                      <Select
+                        value={barrierMonitoring}
+                        onValueChange={(value) => setBarrierMonitoring(value as keyof typeof barrierMonitoringIntervals)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Monitoring" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          <SelectItem value="continuous">Continuous</SelectItem>
+                          <SelectItem value="hourly">Hourly</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="monteCarloPaths" className="option-label">
+                        {barrierEngine === "monte-carlo" ? "Pricing Engine / Paths" : "Pricing Engine"}
+                      </Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select
+                          value={barrierEngine}
+                          onValueChange={(value) => setBarrierEngine(value as "analytic" | "monte-carlo" | "pde")}
+                        >
+                          <SelectTrigger className={cn(
+                            "transition-all duration-200 hover:border-primary text-sm sm:text-base",
+                            barrierEngine !== "monte-carlo" && "col-span-2"
+                          )}>
+                            <SelectValue placeholder="Engine" />
+                          </SelectTrigger>
+                          <SelectContent className="animate-scale">
+                            <SelectItem value="analytic">Closed Form</SelectItem>
+                            <SelectItem value="monte-carlo">Monte Carlo</SelectItem>
+                            <SelectItem value="pde">Crank-Nicolson PDE</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {barrierEngine === "monte-carlo" && (
+                          <Input
+                            id="monteCarloPaths"
+                            type="number"
+                            step="1000"
+                            min="100"
+                            max="100000"
+                            value={monteCarloPaths}
+                            onChange={(e) => {
+                              const parsed = parseInt(e.target.value);
+                              if (!isNaN(parsed) && parsed >= 100 && parsed <= 100000) {
+                                setMonteCarloPaths(parsed);
+                              }
+                            }}
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        )}
+                      </div>
+                      {barrierEngine === "monte-carlo" && barrierMonitoringDates > MAX_MONITORING_DATES && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          The {barrierMonitoringDates} monitoring dates are simulated as {MAX_MONITORING_DATES} evenly
+                          spaced checks, with the barrier shifted (Broadie-Glasserman-Kou) to make up the difference.
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+                
+                {/* Asian Settings */}
+                {optionStyle === "asian" && (
+                  <>
+                    <div className="option-input-group">
+                      <Label className="option-label">Average Type</Label>
+                      <Select
+                        value={averageType}
+                        onValueChange={(value) => setAverageType(value as AverageType)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Average type" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(averageTypeLabels) as AverageType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {averageTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="averagingWindow" className="option-label">
+                          Averaging Window (days) / Fixings
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                The averaging period ends at expiry. A window longer than the time left
+                                started in the past; enter the fixings already taken below. Schedules
+                                of more than {MAX_FIXINGS} fixings are priced on {MAX_FIXINGS} evenly spaced ones.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="averagingWindow"
+                          type="number"
+                          step="1"
+                          min="0.01"
+                          max={MAX_AVERAGING_WINDOW_DAYS}
+                          value={averagingWindow}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setAveragingWindow, 0.01, MAX_AVERAGING_WINDOW_DAYS)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Select
+                          value={fixingFrequency}
+                          onValueChange={(value) => setFixingFrequency(value as keyof typeof fixingFrequencyIntervals)}
+                        >
+                          <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                            <SelectValue placeholder="Fixings" />
+                          </SelectTrigger>
+                          <SelectContent className="animate-scale">
+                            <SelectItem value="hourly">Hourly</SelectItem>
+                            <SelectItem value="daily">Daily</SelectItem>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="fixedObservations" className="option-label">
+                        Fixed Observations / Average ($)
+                      </Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="fixedObservations"
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={fixedObservations}
+                          onChange={(e) => {
+                            const parsed = parseInt(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0) {
+                              setFixedObservations(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="fixedAverage"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={fixedAverage}
+                          disabled={fixedObservations === 0}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setFixedAverage, 0.01)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      {missingFixings > 0 && (
+                        <p className="text-xs text-destructive mt-1">
+                          {missingFixings} past fixing{missingFixings === 1 ? " has" : "s have"} no fixed observation. Add
+                          them to the fixed observations, or the average leaves them out.
+                        </p>
+                      )}
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="asianMonteCarloPaths" className="option-label">
+                        {asianEngine === "monte-carlo" ? "Pricing Engine / Paths" : "Pricing Engine"}
+                      </Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select
+                          value={asianEngine}
+                          onValueChange={(value) => setAsianEngine(value as AsianEngine)}
+                        >
+                          <SelectTrigger className={cn(
+                            "transition-all duration-200 hover:border-primary text-sm sm:text-base",
+                            asianEngine !== "monte-carlo" && "col-span-2"
+                          )}>
+                            <SelectValue placeholder="Engine" />
+                          </SelectTrigger>
+                          <SelectContent className="animate-scale">
+                            {(Object.keys(asianEngineLabels) as AsianEngine[]).map((engine) => (
+                              <SelectItem key={engine} value={engine}>
+                                {asianEngineLabels[engine]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {asianEngine === "monte-carlo" && (
+                          <Input
+                            id="asianMonteCarloPaths"
+                            type="number"
+                            step="1000"
+                            min="100"
+                            max="100000"
+                            value={monteCarloPaths}
+                            onChange={(e) => {
+                              const parsed = parseInt(e.target.value);
+                              if (!isNaN(parsed) && parsed >= 100 && parsed <= 100000) {
+                                setMonteCarloPaths(parsed);
+                              }
+                            }}
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {/* Lookback Settings */}
+                {optionStyle === "lookback" && (
+                  <>
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Strike Type</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                A floating-strike call pays the final price less the lowest price seen, and
+                                a put the highest price less the final price. A fixed-strike call pays the
+                                highest price less the strike, and a put the strike less the lowest price.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={lookbackStrike}
+                        onValueChange={(value) => setLookbackStrike(value as LookbackStrike)}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Strike type" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(lookbackStrikeLabels) as LookbackStrike[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {lookbackStrikeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="runningMinimum" className="option-label">
+                          Running Minimum / Maximum ($)
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                The lowest and highest prices observed since the option started. Leave both
+                                at 0 for a new option, which starts from the spot price.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="runningMinimum"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={runningMinimum}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setRunningMinimum)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="runningMaximum"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={runningMaximum}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setRunningMaximum)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {/* Chooser Settings */}
+                {optionStyle === "chooser" && (
+                  <>
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="chooseDays" className="option-label">
+                          Chooser Type / Choice Date (days)
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                On the choice date the holder decides whether the option is a call or a
+                                put. A simple chooser's put shares the call's strike and expiry; a complex
+                                chooser's put has its own.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select
+                          value={chooserType}
+                          onValueChange={(value) => setChooserType(value as ChooserType)}
+                        >
+                          <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                            <SelectValue placeholder="Chooser type" />
+                          </SelectTrigger>
+                          <SelectContent className="animate-scale">
+                            <SelectItem value="simple">Simple</SelectItem>
+                            <SelectItem value="complex">Complex</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          id="chooseDays"
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={chooseDays}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setChooseDays)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                    
+                    {chooserType === "complex" && (
+                      <div className="option-input-group">
+                        <Label htmlFor="chooserPutStrike" className="option-label">
+                          Put Strike ($) / Put Expiry (days)
+                        </Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            id="chooserPutStrike"
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            value={chooserPutStrike}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setChooserPutStrike, 0.01)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                          <Input
+                            id="chooserPutExpiryDays"
+                            type="number"
+                            step="1"
+                            min="0.01"
+                            value={chooserPutExpiryDays}
+                            onChange={(e) => 
+                              handleNumericInput(e.target.value, setChooserPutExpiryDays, 0.01)
+                            }
+                            className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                          />
+                        </div>
+                        {chooserTermsError && (
+                          <p className="text-xs text-destructive mt-1">{chooserTermsError}</p>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+                
+                {/* Compound Settings */}
+                {optionStyle === "compound" && (
+                  <>
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Underlying Option</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                The option delivered on exercise, with the strike and expiry entered above.
+                                The compound option itself is exercised on its own expiry for the
+                                compound strike.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={compoundUnderlying}
+                        onValueChange={(value) => setCompoundUnderlying(value as "call" | "put")}
+                      >
+                        <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Underlying option" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          <SelectItem value="call">Call</SelectItem>
+                          <SelectItem value="put">Put</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label htmlFor="compoundStrike" className="option-label">
+                        Compound Strike ($) / Expiry (days)
+                      </Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="compoundStrike"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          value={compoundStrike}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setCompoundStrike, 0.01)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="compoundExpiryDays"
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={compoundExpiryDays}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setCompoundExpiryDays)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {/* Exercise Style */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Exercise Style</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            European options can only be exercised at expiry. American options can be
+                            exercised at any time and are priced on a binomial or trinomial tree.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    value={exerciseStyle}
+                    onValueChange={(value) => value && handleExerciseStyleChange(value as "european" | "american")}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem 
+                      value="european" 
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        exerciseStyle === "european" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      European
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="american"
+                      disabled={optionStyle !== "vanilla" || pricingModel !== "black-scholes" || isPerpetual}
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        exerciseStyle === "american" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      American
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                
+                {/* American Engine Settings */}
+                {exerciseStyle === "american" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="treeSteps" className="option-label">
+                      {americanEngine === "binomial" || americanEngine === "trinomial"
+                        ? "Pricing Engine / Steps"
+                        : "Pricing Engine"}
+                    </Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={americanEngine}
+                        onValueChange={(value) => setAmericanEngine(value as AmericanEngine)}
+                      >
+                        <SelectTrigger className={cn(
+                          "transition-all duration-200 hover:border-primary text-sm sm:text-base",
+                          !(americanEngine === "binomial" || americanEngine === "trinomial") && "col-span-2"
+                        )}>
+                          <SelectValue placeholder="Engine" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {(Object.keys(americanEngineLabels) as AmericanEngine[]).map((engine) => (
+                            <SelectItem key={engine} value={engine}>
+                              {americanEngineLabels[engine]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {(americanEngine === "binomial" || americanEngine === "trinomial") && (
+                        <Input
+                          id="treeSteps"
+                          type="number"
+                          step="1"
+                          min="2"
+                          max="2000"
+                          value={treeSteps}
+                          onChange={(e) => {
+                            const parsed = parseInt(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 2 && parsed <= 2000) {
+                              setTreeSteps(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      )}
+                    </div>
+                  </div>
+                )}
+                
+                {/* PDE Grid Size */}
+                {((exerciseStyle === "american" && americanEngine === "crank-nicolson") ||
+                  (optionStyle === "barrier" && barrierEngine === "pde")) && (
+                  <div className="option-input-group">
+                    <div className="flex items-center gap-1">
+                      <Label className="option-label">Grid Size (Price / Time Steps)</Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                          </TooltipTrigger>
+                          <TooltipContent className="animate-scale">
+                            <p className="max-w-xs text-xs">
+                              Number of intervals in the log-price and time directions of the
+                              Crank-Nicolson grid. Finer grids are more accurate but slower.
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        id="gridSpotSteps"
+                        type="number"
+                        step="10"
+                        min="10"
+                        max={MAX_GRID_STEPS}
+                        value={gridSize.spotSteps}
+                        onChange={(e) => {
+                          const parsed = parseInt(e.target.value);
+                          if (!isNaN(parsed) && parsed >= 10 && parsed <= MAX_GRID_STEPS) {
+                            setGridSize((size) => ({ ...size, spotSteps: parsed }));
+                          }
+                        }}
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                      <Input
+                        id="gridTimeSteps"
+                        type="number"
+                        step="10"
+                        min="10"
+                        max={MAX_GRID_STEPS}
+                        value={gridSize.timeSteps}
+                        onChange={(e) => {
+                          const parsed = parseInt(e.target.value);
+                          if (!isNaN(parsed) && parsed >= 10 && parsed <= MAX_GRID_STEPS) {
+                            setGridSize((size) => ({ ...size, timeSteps: parsed }));
+                          }
+                        }}
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+                  </div>
+                )}
+                
+                {/* Pricing Model */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Pricing Model</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Black-Scholes assumes a flat volatility. Heston lets the variance move and
+                            correlate with the price, which produces a volatility skew; the implied
+                            volatility field then shows the Black-Scholes volatility of the Heston price.
+                            Merton adds random price jumps on top of the implied volatility. SABR sets
+                            the volatility for each strike from its smile parameters. Bachelier uses a
+                            normal volatility in price units and accepts zero or negative prices. Monte
+                            Carlo simulates price paths and reports the sampling error of the estimate.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Select
+                    value={pricingModel}
+                    onValueChange={(value) => handlePricingModelChange(value as PricingModel)}
+                    disabled={isPerpetual}
+                  >
+                    <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                      <SelectValue placeholder="Pricing model" />
+                    </SelectTrigger>
+                    <SelectContent className="animate-scale">
+                      {(Object.keys(pricingModelLabels) as PricingModel[]).map((model) => (
+                        <SelectItem key={model} value={model}>
+                          {pricingModelLabels[model]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {/* Normal CDF */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="compareLegacyCDF" className="option-label">Compare Legacy Normal CDF</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Prices always use Cody's approximation, which is accurate to double precision
+                            including deep out-of-the-money tails. Turn this on to also show the
+                            Black-Scholes premium under the legacy Abramowitz-Stegun formula, whose errors
+                            are around 1e-7.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Switch
+                    id="compareLegacyCDF"
+                    checked={compareLegacyCDF}
+                    onCheckedChange={handleCompareLegacyCDFChange}
+                  />
+                </div>
+                
+                {/* Heston Parameters */}
+                {pricingModel === "heston" && (
+                  <div className="option-input-group">
+                    <Label className="option-label">Heston Parameters</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="heston-v0" className="text-xs text-muted-foreground">
+                          v₀ (Initial Variance)
+                        </Label>
+                        <Input
+                          id="heston-v0"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={hestonParams.v0}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0) {
+                              setHestonParams((params) => ({ ...params, v0: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="heston-kappa" className="text-xs text-muted-foreground">
+                          κ (Mean Reversion)
+                        </Label>
+                        <Input
+                          id="heston-kappa"
+                          type="number"
+                          step="0.1"
+                          min="0.01"
+                          value={hestonParams.kappa}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0.01) {
+                              setHestonParams((params) => ({ ...params, kappa: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="heston-theta" className="text-xs text-muted-foreground">
+                          θ (Long-Run Variance)
+                        </Label>
+                        <Input
+                          id="heston-theta"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={hestonParams.theta}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0) {
+                              setHestonParams((params) => ({ ...params, theta: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="heston-xi" className="text-xs text-muted-foreground">
+                          ξ (Vol of Vol)
+                        </Label>
+                        <Input
+                          id="heston-xi"
+                          type="number"
+                          step="0.1"
+                          min="0.01"
+                          value={hestonParams.xi}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0.01) {
+                              setHestonParams((params) => ({ ...params, xi: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="heston-rho" className="text-xs text-muted-foreground">
+                          ρ (Correlation)
+                        </Label>
+                        <Input
+                          id="heston-rho"
+                          type="number"
+                          step="0.05"
+                          min="-0.99" max="0.99"
+                          value={hestonParams.rho}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= -0.99 && parsed <= 0.99) {
+                              setHestonParams((params) => ({ ...params, rho: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
+                {/* SABR Parameters */}
+                {pricingModel === "sabr" && (
+                  <div className="option-input-group">
+                    <Label className="option-label">SABR Parameters</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="sabr-alpha" className="text-xs text-muted-foreground">
+                          α (Vol Level)
+                        </Label>
+                        <Input
+                          id="sabr-alpha"
+                          type="number"
+                          step="0.05"
+                          min="0.0001"
+                          value={sabrParams.alpha}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0.0001) {
+                              setSabrParams((params) => ({ ...params, alpha: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="sabr-beta" className="text-xs text-muted-foreground">
+                          β (Backbone)
+                        </Label>
+                        <Input
+                          id="sabr-beta"
+                          type="number"
+                          step="0.1"
+                          min="0" max="1"
+                          value={sabrParams.beta}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0 && parsed <= 1) {
+                              setSabrParams((params) => ({ ...params, beta: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="sabr-rho" className="text-xs text-muted-foreground">
+                          ρ (Correlation)
+                        </Label>
+                        <Input
+                          id="sabr-rho"
+                          type="number"
+                          step="0.05"
+                          min="-0.99" max="0.99"
+                          value={sabrParams.rho}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= -0.99 && parsed <= 0.99) {
+                              setSabrParams((params) => ({ ...params, rho: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="sabr-nu" className="text-xs text-muted-foreground">
+                          ν (Vol of Vol)
+                        </Label>
+                        <Input
+                          id="sabr-nu"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={sabrParams.nu}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0) {
+                              setSabrParams((params) => ({ ...params, nu: parsed }));
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
+                {/* Normal Volatility */}
+                {pricingModel === "bachelier" && (
+                  <div className="option-input-group">
+                    <div className="flex items-center gap-1">
+                      <Label htmlFor="normalVolatility" className="option-label">
+                        Normal Volatility ($ / year)
+                      </Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                          </TooltipTrigger>
+                          <TooltipContent className="animate-scale">
+                            <p className="max-w-xs text-xs">
+                              Annualized standard deviation of the price in dollars rather than percent.
+                              The implied volatility field shows the equivalent lognormal volatility.
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Input
+                      id="normalVolatility"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={normalVolatility}
+                      onChange={(e) => 
+                        handleNumericInput(e.target.value, setNormalVolatility)
+                      }
+                      className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                )}
+                
+                {/* Monte Carlo Settings */}
+                {pricingModel === "monte-carlo" && (
+                  <>
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Simulated Process</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Geometric Brownian motion reproduces Black-Scholes. Adding jumps
+                                simulates the Merton process with the jump parameters below.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <ToggleGroup
+                        type="single"
+                        value={monteCarloProcess}
+                        onValueChange={(value) => value && handleMonteCarloProcessChange(value as MonteCarloProcess)}
+                        className="justify-start"
+                      >
+                        <ToggleGroupItem 
+                          value="gbm" 
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            monteCarloProcess === "gbm" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          GBM
+                        </ToggleGroupItem>
+                        <ToggleGroupItem 
+                          value="jump"
+                          className={cn(
+                            "transition-all duration-200 text-sm sm:text-base",
+                            monteCarloProcess === "jump" ? "bg-primary text-primary-foreground animate-scale" : ""
+                          )}
+                        >
+                          GBM + Jumps
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <Label className="option-label">Paths / Seed</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          id="simulationPaths"
+                          type="number"
+                          step="1000"
+                          min="100"
+                          max="200000"
+                          value={monteCarloPaths}
+                          onChange={(e) => {
+                            const parsed = parseInt(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 100 && parsed <= 200000) {
+                              setMonteCarloPaths(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                        <Input
+                          id="simulationSeed"
+                          type="number"
+                          step="1"
+                          min="0"
+                          value={monteCarloSeed}
+                          onChange={(e) => {
+                            const parsed = parseInt(e.target.value);
+                            if (!isNaN(parsed) && parsed >= 0) {
+                              setMonteCarloSeed(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                    
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label className="option-label">Variance Reduction</Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                Antithetic paths pair every path with its mirror image. The control
+                                variate corrects the estimate using the final price, whose value is known.
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <div className="flex flex-col gap-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="antitheticPaths" className="text-xs sm:text-sm text-muted-foreground">
+                            Antithetic paths
+                          </Label>
+                          <Switch
+                            id="antitheticPaths"
+                            checked={antitheticPaths}
+                            onCheckedChange={setAntitheticPaths}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="controlVariate" className="text-xs sm:text-sm text-muted-foreground">
+                            Control variate
+                          </Label>
+                          <Switch
+                            id="controlVariate"
+                            checked={controlVariate}
+                            onCheckedChange={setControlVariate}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
+                
+                {/* Jump Parameters */}
+                {(pricingModel === "merton" || (pricingModel === "monte-carlo" && monteCarloProcess === "jump")) && (
+                  <div className="option-input-group">
+                    <Label className="option-label">Jump Parameters</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="jumpIntensity" className="text-xs text-muted-foreground">
+                          Jumps / Year
+                        </Label>
+                        <Input
+                          id="jumpIntensity"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={jumpIntensity}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setJumpIntensity)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="jumpMean" className="text-xs text-muted-foreground">
+                          Mean Jump (%)
+                        </Label>
+                        <Input
+                          id="jumpMean"
+                          type="number"
+                          step="0.5"
+                          value={jumpMean}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed)) {
+                              setJumpMean(parsed);
+                            }
+                          }}
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="jumpVolatility" className="text-xs text-muted-foreground">
+                          Jump Vol (%)
+                        </Label>
+                        <Input
+                          id="jumpVolatility"
+                          type="number"
+                          step="0.5"
+                          min="0"
+                          value={jumpVolatility}
+                          onChange={(e) => 
+                            handleNumericInput(e.target.value, setJumpVolatility)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
+                {/* Solve For */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Solve For</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Calculate the premium from a volatility, or enter a quoted market premium
+                            to back out the implied volatility.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    value={solveFor}
+                    onValueChange={(value) => value && handleSolveForChange(value as "premium" | "volatility")}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem 
+                      value="premium" 
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        solveFor === "premium" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Premium
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="volatility"
+                      disabled={
+                        exerciseStyle === "american" || optionStyle !== "vanilla" || pricingModel !== "black-scholes" || isPerpetual
+                      }
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        solveFor === "volatility" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      Implied Vol
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                
+                {/* Market Premium */}
+                {solveFor === "volatility" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="marketPremium" className="option-label">
+                      {showInCoin ? `Market Premium (${coinSymbol})` : "Market Premium ($)"}
+                    </Label>
+                    <Input
+                      id="marketPremium"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={marketPremium}
+                      onChange={(e) => 
+                        handleNumericInput(e.target.value, setMarketPremium)
+                      }
+                      className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                )}
+                
                 {/* Implied Volatility */}
                 <div className="option-input-group">
                   <div className="flex items-center justify-between">
@@ -637,7 +3206,9 @@ export const OptionCalculator = () => {
                       type="number"
                       step="any"
                       max="1000"
-                      value={volatility || ''}
+                      value={volatilityIsOutput
+                        ? (impliedVolatility !== null ? Number(impliedVolatility.toFixed(2)) : '')
+                        : (volatility || '')}
                       onChange={(e) => {
                         const value = e.target.value;
                         if (value === '') {
@@ -649,10 +3220,11 @@ export const OptionCalculator = () => {
                           }
                         }
                       }}
-                      disabled={useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH')}
+                      disabled={volatilityIsOutput || (useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH'))}
                       className={cn(
                         "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary",
-                        useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && "opacity-50"
+                        useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && "opacity-50",
+                        volatilityIsOutput && "font-medium text-primary"
                       )}
                     />
                     {useDVOL && (selectedAsset === 'BTC' || selectedAsset === 'ETH') && (
@@ -662,13 +3234,16 @@ export const OptionCalculator = () => {
                       </div>
                     )}
                   </div>
+                  {volatilityIsOutput && impliedVolatilityError && (
+                    <p className="text-xs text-destructive mt-1">{impliedVolatilityError}</p>
+                  )}
                 </div>
                 
                 {/* Risk-Free Rate */}
                 <div className="option-input-group">
                   <div className="flex items-center gap-1">
                     <Label htmlFor="riskFreeRate" className="option-label">
-                      Risk-Free Rate (%)
+                      {underlyingType === "fx" ? `Domestic Rate, ${domesticCurrency} (%)` : "Risk-Free Rate (%)"}
                     </Label>
                     <TooltipProvider>
                       <Tooltip>
@@ -696,6 +3271,61 @@ export const OptionCalculator = () => {
                     className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
                   />
                 </div>
+                
+                {/* Foreign Rate */}
+                {underlyingType === "fx" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="foreignRate" className="option-label">
+                      Foreign Rate, {foreignCurrency} (%)
+                    </Label>
+                    <Input
+                      id="foreignRate"
+                      type="number"
+                      step="0.01"
+                      min="-100"
+                      value={foreignRate}
+                      onChange={(e) => 
+                        handleNumericInput(e.target.value, setForeignRate, -100)
+                      }
+                      className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                )}
+                
+                {/* Dividend / Carry Yield */}
+                {underlyingType === "spot" && (
+                  <div className="option-input-group">
+                    <div className="flex items-center gap-1">
+                      <Label htmlFor="dividendYield" className="option-label">
+                        Dividend / Carry Yield (%)
+                      </Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                          </TooltipTrigger>
+                          <TooltipContent className="animate-scale">
+                            <p className="max-w-xs text-xs">
+                              Continuous yield earned by holding the underlying, such as a dividend or staking yield.
+                              Use 0% for assets without a yield.
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Input
+                      id="dividendYield"
+                      type="number"
+                      step="0.01"
+                      min="-100"
+                      value={dividendYield}
+                      onChange={(e) => 
+                        handleNumericInput(e.target.value, setDividendYield, -100)
+                      }
+                      className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -762,7 +3392,7 @@ export const OptionCalculator = () => {
               <Tabs
                 defaultValue="date"
                 value={timeMethod}
-                onValueChange={handleTimeMethodChange}
+                onValueChange={(value) => handleTimeMethodChange(value as TimeMethod)}
               >
                 <TabsList className="mb-4">
                   <TabsTrigger value="date" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
@@ -773,6 +3403,10 @@ export const OptionCalculator = () => {
                     <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
                     <span>Duration</span>
                   </TabsTrigger>
+                  <TabsTrigger value="perpetual" className="flex items-center gap-1.5 transition-all duration-200 text-xs sm:text-sm">
+                    <InfinityIcon className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span>No Expiry</span>
+                  </TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="date" className="mt-0 animate-fade-in">
@@ -902,6 +3536,84 @@ export const OptionCalculator = () => {
                     </div>
                   </div>
                 </TabsContent>
+
+                <TabsContent value="perpetual" className="mt-0 animate-fade-in">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="option-input-group">
+                      <div className="flex items-center gap-1">
+                        <Label htmlFor="perpetualProduct" className="option-label">
+                          Product
+                        </Label>
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                            </TooltipTrigger>
+                            <TooltipContent className="animate-scale">
+                              <p className="max-w-xs text-xs">
+                                These never expire. Every funding period the long side pays the mark price
+                                less the current payoff, which keeps the mark close to a strip of expiries
+                                one, two, three, ... periods out weighted 1/2, 1/4, 1/8, ...
+                              </p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      </div>
+                      <Select
+                        value={perpetualProduct}
+                        onValueChange={(value) => {
+                          setPerpetualProduct(value as PerpetualProduct);
+                          track('perpetual_product_changed', { product: value });
+                        }}
+                      >
+                        <SelectTrigger id="perpetualProduct" className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                          <SelectValue placeholder="Select product" />
+                        </SelectTrigger>
+                        <SelectContent className="animate-scale">
+                          {Object.entries(perpetualProductLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="option-input-group">
+                      <Label htmlFor="fundingPeriodHours" className="option-label">
+                        Funding Period (hours)
+                      </Label>
+                      <Input
+                        id="fundingPeriodHours"
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={fundingPeriodHours}
+                        onChange={(e) =>
+                          handleNumericInput(e.target.value, setFundingPeriodHours, 1)
+                        }
+                        className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                      />
+                    </div>
+
+                    {perpetualProduct === "power" && (
+                      <div className="option-input-group">
+                        <Label htmlFor="perpetualPower" className="option-label">
+                          Power (n)
+                        </Label>
+                        <Input
+                          id="perpetualPower"
+                          type="number"
+                          step="0.5"
+                          min="0.5"
+                          value={perpetualPower}
+                          onChange={(e) =>
+                            handleNumericInput(e.target.value, setPerpetualPower, 0.5)
+                          }
+                          className="text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -918,14 +3630,203 @@ export const OptionCalculator = () => {
                 "text-xl sm:text-3xl font-bold text-primary transition-all duration-200",
                 animatePremium && "animate-scale"
               )}>
-                ${premium.toFixed(2)}
+                {showInCoin
+                  ? `${displayedPremium.toFixed(6)} ${coinSymbol}`
+                  : underlyingType === "fx"
+                  ? `${premium.toFixed(6)} ${domesticCurrency}`
+                  : settlement === "quanto"
+                  ? `${premium.toFixed(2)} ${quantoCurrency}`
+                  : `$${premium.toFixed(2)}`}
               </div>
               <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                {optionType === "call" ? "Call" : "Put"} option price
-              </p>
-              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
-                ({(premium / spotPrice * 100).toFixed(2)}% of asset price)
+                {isPowerPerpetual
+                  ? `Power perpetual price (S^${perpetualPower})`
+                  : `${isPerpetual ? "Everlasting " : ""}${
+                      optionStyle === "chooser" ? "Chooser" : optionType === "call" ? "Call" : "Put"
+                    } option price`}
+                {optionStyle === "barrier"
+                  ? ` (${barrierTypeLabels[barrierType]})`
+                  : optionStyle === "asian"
+                  ? ` (Asian ${averageTypeLabels[averageType]})`
+                  : optionStyle === "lookback"
+                  ? ` (${lookbackStrikeLabels[lookbackStrike]} Lookback)`
+                  : optionStyle === "chooser"
+                  ? ` (${chooserType === "simple" ? "Simple" : "Complex"})`
+                  : optionStyle === "compound"
+                  ? ` (on a ${compoundUnderlying === "call" ? "Call" : "Put"})`
+                  : optionStyle !== "vanilla" && ` (${optionStyleLabels[optionStyle]})`}
               </p>
+              {spotPrice > 0 && !isPowerPerpetual && (
+                <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                  ({(premium / spotPrice * 100).toFixed(2)}% of asset price)
+                </p>
+              )}
+              {isPerpetual && (
+                <>
+                  <div className="flex justify-between items-center mt-3">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Payoff now</span>
+                    <span className="font-medium text-xs sm:text-sm">${perpetualPayoff.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">
+                      Funding per {fundingPeriodHours}h (long pays)
+                    </span>
+                    <span className="font-medium text-xs sm:text-sm">${(premium - perpetualPayoff).toFixed(2)}</span>
+                  </div>
+                  {isPowerPerpetual && premium === 0 && (
+                    <p className="text-xs text-amber-500 mt-2">
+                      S^{perpetualPower} grows faster than funding can pay it down over one period, so
+                      the price is unbounded. Lower the power or shorten the funding period.
+                    </p>
+                  )}
+                </>
+              )}
+              {underlyingType === "fx" && (
+                <div className="space-y-1 mt-3">
+                  {fxPremiumConventions.map((convention) => (
+                    <div key={convention} className="flex justify-between items-center">
+                      <span className="text-xs sm:text-sm text-muted-foreground">
+                        {fxPremiumConventionLabel(convention, foreignCurrency, domesticCurrency)}
+                      </span>
+                      <span className="font-medium text-xs sm:text-sm">
+                        {convertFxPremium(premium, spotPrice, strikePrice, convention, pipSize).toFixed(
+                          convention.startsWith("percent") ? 4 : 2
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                  {foreignRho !== null && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs sm:text-sm text-muted-foreground">Foreign rho ({foreignCurrency} rate, per 1%)</span>
+                      <span className="font-medium text-xs sm:text-sm">{foreignRho.toFixed(6)}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+              {pricingModel === "merton" && (
+                <>
+                  <div className="flex justify-between items-center mt-3">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Black-Scholes premium</span>
+                    <span className="font-medium text-xs sm:text-sm">
+                      {showInCoin
+                        ? `${toInversePremium(blackScholesPremium, spotPrice).toFixed(6)} ${coinSymbol}`
+                        : `$${blackScholesPremium.toFixed(2)}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Jump risk premium</span>
+                    <span className="font-medium text-xs sm:text-sm">
+                      {showInCoin
+                        ? `${toInversePremium(premium - blackScholesPremium, spotPrice).toFixed(6)} ${coinSymbol}`
+                        : `$${(premium - blackScholesPremium).toFixed(2)}`}
+                    </span>
+                  </div>
+                </>
+              )}
+              {legacyCDFPremium !== null && (
+                <>
+                  <div className="flex justify-between items-center mt-3">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Abramowitz-Stegun CDF premium</span>
+                    <span className="font-medium text-xs sm:text-sm">${legacyCDFPremium.toFixed(6)}</span>
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Cody − legacy</span>
+                    <span className="font-medium text-xs sm:text-sm">{(premium - legacyCDFPremium).toExponential(2)}</span>
+                  </div>
+                </>
+              )}
+              {quantoComparison !== null && (
+                <>
+                  <div className="flex justify-between items-center mt-3">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Plain Black-Scholes premium</span>
+                    <span className="font-medium text-xs sm:text-sm">${quantoComparison.plainPremium.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Quanto adjustment</span>
+                    <span className="font-medium text-xs sm:text-sm">
+                      {(premium - quantoComparison.plainPremium * quantoFxRate).toFixed(2)} {quantoCurrency}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Drift adjustment (ρ σ σ_FX)</span>
+                    <span className="font-medium text-xs sm:text-sm">
+                      {(-quantoComparison.driftAdjustment * 100).toFixed(2)}%
+                    </span>
+                  </div>
+                </>
+              )}
+              {pricingModel === "heston" && impliedVolatility !== null && (
+                <div className="flex justify-between items-center mt-3">
+                  <span className="text-xs sm:text-sm text-muted-foreground">Black-Scholes implied vol</span>
+                  <span className="font-medium text-xs sm:text-sm">{impliedVolatility.toFixed(2)}%</span>
+                </div>
+              )}
+              {monteCarloError !== null && (
+                <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                  ± {showInCoin
+                    ? `${toInversePremium(monteCarloError, spotPrice).toFixed(6)} ${coinSymbol}`
+                    : `$${monteCarloError.toFixed(2)}`} standard error
+                </p>
+              )}
+              {monteCarloInterval !== null && (
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  95% CI {showInCoin
+                    ? `${toInversePremium(monteCarloInterval[0], spotPrice).toFixed(6)} – ${toInversePremium(monteCarloInterval[1], spotPrice).toFixed(6)} ${coinSymbol}`
+                    : `$${monteCarloInterval[0].toFixed(2)} – $${monteCarloInterval[1].toFixed(2)}`}
+                </p>
+              )}
+              {pricingModel === "monte-carlo" && (
+                <div className="flex justify-between items-center mt-3">
+                  <span className="text-xs sm:text-sm text-muted-foreground">
+                    {monteCarloProcess === "jump" ? "Merton closed-form premium" : "Black-Scholes premium"}
+                  </span>
+                  <span className="font-medium text-xs sm:text-sm">
+                    {showInCoin
+                      ? `${toInversePremium(blackScholesPremium, spotPrice).toFixed(6)} ${coinSymbol}`
+                      : `$${blackScholesPremium.toFixed(2)}`}
+                  </span>
+                </div>
+              )}
+              {exerciseStyle === "american" && (
+                <div className="flex justify-between items-center mt-3">
+                  <span className="text-xs sm:text-sm text-muted-foreground">Early-exercise premium</span>
+                  <span className="font-medium text-xs sm:text-sm">
+                    {showInCoin
+                      ? `${toInversePremium(earlyExercisePremium, spotPrice).toFixed(6)} ${coinSymbol}`
+                      : `$${earlyExercisePremium.toFixed(2)}`}
+                  </span>
+                </div>
+              )}
+              {settlement === "inverse" && (
+                <div className="flex items-center justify-between mt-3">
+                  <span className="text-xs text-muted-foreground">Show in</span>
+                  <ToggleGroup
+                    type="single"
+                    value={displayCurrency}
+                    onValueChange={(value) => value && setDisplayCurrency(value as "usd" | "coin")}
+                    className="h-5 sm:h-6"
+                  >
+                    <ToggleGroupItem 
+                      value="coin" 
+                      className={cn(
+                        "h-5 sm:h-6 px-2 text-xs",
+                        displayCurrency === "coin" ? "bg-primary text-primary-foreground" : ""
+                      )}
+                    >
+                      {coinSymbol}
+                    </ToggleGroupItem>
+                    <ToggleGroupItem 
+                      value="usd"
+                      className={cn(
+                        "h-5 sm:h-6 px-2 text-xs",
+                        displayCurrency === "usd" ? "bg-primary text-primary-foreground" : ""
+                      )}
+                    >
+                      USD
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              )}
             </CardContent>
           </Card>
           
@@ -935,7 +3836,7 @@ export const OptionCalculator = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-2 sm:space-y-3">
-                {Object.entries(greeks).map(([key, value]) => (
+                {Object.entries(displayedGreeks).map(([key, value]) => (
                   <div key={key} className="flex justify-between items-center">
                     <div className="flex items-center gap-2">
                       <TooltipProvider>
@@ -948,7 +3849,9 @@ export const OptionCalculator = () => {
                           </TooltipTrigger>
                           <TooltipContent side={isMobile ? "top" : "right"} className="animate-scale">
                             <p className="max-w-xs text-xs">
-                              {greekDescriptions[key as keyof typeof greekDescriptions]}
+                              {key === "vega" && pricingModel === "bachelier"
+                                ? bachelierVegaDescription
+                                : greekDescriptions[key as keyof typeof greekDescriptions]}
                             </p>
                           </TooltipContent>
                         </Tooltip>
@@ -958,13 +3861,196 @@ export const OptionCalculator = () => {
                       "font-medium transition-all duration-200 text-xs sm:text-sm",
                       animatePremium && "animate-scale"
                     )}>
-                      {value.toFixed(4)}
+                      {value.toFixed(showInCoin ? 6 : 4)}
                     </span>
                   </div>
                 ))}
               </div>
+              
+              <Collapsible
+                open={showAdvancedGreeks}
+                onOpenChange={setShowAdvancedGreeks}
+                className="mt-3 sm:mt-4 border-t pt-2 sm:pt-3"
+              >
+                <CollapsibleTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-between px-0 text-xs sm:text-sm text-muted-foreground hover:text-primary hover:bg-transparent"
+                  >
+                    Advanced Greeks
+                    <ChevronDown className={cn(
+                      "h-3 w-3 sm:h-4 sm:w-4 transition-transform duration-200",
+                      showAdvancedGreeks && "rotate-180"
+                    )} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="animate-fade-in">
+                  {advancedGreeks ? (
+                    <div className="space-y-2 sm:space-y-3 pt-2">
+                      {Object.entries(advancedGreeks).map(([key, value]) => (
+                        <div key={key} className="flex justify-between items-center">
+                          <TooltipProvider>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div className="flex items-center gap-2 cursor-help">
+                                  <span className="text-xs sm:text-sm font-medium">
+                                    {advancedGreekLabels[key as keyof typeof advancedGreekLabels]}
+                                  </span>
+                                  <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent side={isMobile ? "top" : "right"} className="animate-scale">
+                                <p className="max-w-xs text-xs">
+                                  {advancedGreekDescriptions[key as keyof typeof advancedGreekDescriptions]}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                          <span className="font-medium text-xs sm:text-sm">
+                            {value.toFixed(6)}
+                          </span>
+                        </div>
+                      ))}
+                      {settlement === "inverse" && (
+                        <p className="text-xs text-muted-foreground">Shown in USD terms</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground pt-2">
+                      Advanced Greeks are available for European vanilla options without quanto settlement only.
+                    </p>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+            </CardContent>
+          </Card>
+          
+          <Card className="grecian-blur">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Probabilities</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {probabilities ? (
+                <div className="space-y-2 sm:space-y-3">
+                  <div className="flex justify-between items-center gap-2">
+                    <div className="flex items-center gap-1">
+                      <Label htmlFor="expectedReturn" className="text-xs sm:text-sm text-muted-foreground">
+                        Expected return (% / year)
+                      </Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                          </TooltipTrigger>
+                          <TooltipContent className="animate-scale">
+                            <p className="max-w-xs text-xs">
+                              Your own forecast of the asset's annual return, used for the real-world
+                              probabilities. Risk-neutral probabilities grow at the risk-free rate instead,
+                              less the drift adjustment for quanto settlement.
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                    <Input
+                      id="expectedReturn"
+                      type="number"
+                      step="1"
+                      value={expectedReturn}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (!isNaN(parsed)) {
+                          setExpectedReturn(parsed);
+                        }
+                      }}
+                      className="w-24 h-8 text-xs sm:text-sm transition-all duration-200 hover:border-primary focus:border-primary"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-xs sm:text-sm border-t pt-2">
+                    <span />
+                    <span className="text-right text-muted-foreground">Risk-neutral</span>
+                    <span className="text-right text-muted-foreground">Real-world</span>
+                    <span className="text-muted-foreground">Expires ITM</span>
+                    <span className="text-right font-medium">{(probabilities.riskNeutralITM * 100).toFixed(2)}%</span>
+                    <span className="text-right font-medium">{(probabilities.realWorldITM * 100).toFixed(2)}%</span>
+                    <span className="text-muted-foreground">Touches strike</span>
+                    <span className="text-right font-medium">{(probabilities.riskNeutralTouch * 100).toFixed(2)}%</span>
+                    <span className="text-right font-medium">{(probabilities.realWorldTouch * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="border-t pt-2 space-y-1">
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs sm:text-sm text-muted-foreground">1σ expected move</span>
+                      <span className="font-medium text-xs sm:text-sm">
+                        ±${probabilities.expectedMove.move.toFixed(2)} (${probabilities.expectedMove.oneSigma[0].toFixed(2)} – ${probabilities.expectedMove.oneSigma[1].toFixed(2)})
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs sm:text-sm text-muted-foreground">2σ expected move</span>
+                      <span className="font-medium text-xs sm:text-sm">
+                        ±${(2 * probabilities.expectedMove.move).toFixed(2)} (${probabilities.expectedMove.twoSigma[0].toFixed(2)} – ${probabilities.expectedMove.twoSigma[1].toFixed(2)})
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Lognormal price at the pricing volatility; touch probabilities assume continuous monitoring
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Probabilities use a lognormal price and are not available for the Bachelier model.
+                </p>
+              )}
             </CardContent>
           </Card>
+          
+          {exerciseStyle === "american" && (
+            <Card className="grecian-blur">
+              <CardHeader className="pb-2 sm:pb-3">
+                <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Engine Comparison</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {engineComparison.length === 0 ? (
+                  <div className="space-y-2 sm:space-y-3">
+                    <p className="text-xs text-muted-foreground">
+                      Prices the option with every engine against a {REFERENCE_TREE_STEPS}-step binomial reference.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!pricingInputs}
+                      onClick={handleCompareEngines}
+                      className="transition-all duration-200 hover:border-primary text-xs sm:text-sm"
+                    >
+                      Compare Engines
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2 sm:space-y-3">
+                    {engineComparison.map(({ engine, premium: enginePremium }) => (
+                      <div key={engine} className="flex justify-between items-center">
+                        <span className={cn(
+                          "text-xs sm:text-sm",
+                          engine === americanEngine ? "font-medium text-primary" : "text-muted-foreground"
+                        )}>
+                          {americanEngineLabels[engine]}
+                        </span>
+                        <span className="font-medium text-xs sm:text-sm">
+                          ${enginePremium.toFixed(4)}
+                          <span className="text-muted-foreground ml-2">
+                            ({enginePremium - referencePremium >= 0 ? "+" : ""}{(enginePremium - referencePremium).toFixed(4)})
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground pt-1">
+                      Differences against a {REFERENCE_TREE_STEPS}-step binomial reference of ${referencePremium.toFixed(4)}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
@@ -977,13 +4063,48 @@ export const OptionCalculator = () => {
           <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
             <PayoffGraph
               spotPrice={spotPrice}
-              strikePrice={strikePrice}
-              premium={premium}
+              strikePrice={optionStyle === "asian" && averageType === "average-strike" ? expectedAverage : strikePrice}
+              premium={displayedPremium}
               optionType={optionType}
+              optionStyle={optionStyle}
+              allowNegativePrices={pricingModel === "bachelier"}
+              cashPayout={cashPayout}
+              averageType={optionStyle === "asian" ? averageType : undefined}
+              barrierType={optionStyle === "barrier" ? barrierType : undefined}
+              barrierLevel={barrierLevel}
+              barrierRebate={barrierRebate}
+              currency={showInCoin ? "coin" : "usd"}
+              coinSymbol={coinSymbol}
+              expiryValueAt={
+                optionStyle === "compound"
+                  ? compoundValueAtExpiry
+                  : settlement === "quanto"
+                  ? quantoValueAtExpiry
+                  : isPowerPerpetual ? (price: number) => Math.pow(price, perpetualPower) : undefined
+              }
+              simulatedValues={optionStyle === "lookback" || optionStyle === "chooser" ? simulatedValues : undefined}
             />
           </div>
         </CardContent>
       </Card>
+
+      {/* Volatility Smile Section - Full Width */}
+      {pricingModel === "sabr" && (
+        <Card className="grecian-blur w-full mt-6">
+          <CardHeader className="pb-2 sm:pb-3">
+            <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Volatility Smile</CardTitle>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-4">
+            <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
+              <SmileChart
+                data={volatilitySmile}
+                strikePrice={strikePrice}
+                forwardPrice={Number(smileForward.toFixed(2))}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
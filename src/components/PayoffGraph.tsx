@@ -7,6 +7,7 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
 
@@ -15,39 +16,191 @@ interface PayoffGraphProps {
   strikePrice: number;
   premium: number;
   optionType: 'call' | 'put';
+  optionStyle?: 'vanilla' | 'cash-or-nothing' | 'asset-or-nothing' | 'barrier' | 'asian' | 'lookback' | 'chooser' | 'compound';
+  allowNegativePrices?: boolean;  // Normal-model underlyings such as spreads can go below zero
+  cashPayout?: number;        // Fixed payout of a cash-or-nothing digital
+  averageType?: 'average-price' | 'average-strike';  // Asian options plot against the average or the final price
+  barrierType?: 'down-and-in' | 'down-and-out' | 'up-and-in' | 'up-and-out';
+  barrierLevel?: number;
+  barrierRebate?: number;
+  currency?: 'usd' | 'coin';  // Inverse options plot payoff in the settlement coin
+  coinSymbol?: string;
+  expiryValueAt?: (price: number) => number;  // Exact value at expiry, overriding the built-in payoffs
+  simulatedValues?: { finalPrice: number; payoff: number }[];  // Simulated outcomes for path-dependent payoffs
 }
 
+// One series under the cursor, as passed to the tooltip
+interface TooltipEntry {
+  dataKey: string;
+  name: string;
+  value: number | null;
+}
+
+// Number of final-price bins the simulated payoffs are averaged over
+const SIMULATION_BINS = 60;
+
 export const PayoffGraph: React.FC<PayoffGraphProps> = ({
   spotPrice,
   strikePrice,
   premium,
-  optionType
+  optionType,
+  optionStyle = 'vanilla',
+  allowNegativePrices = false,
+  cashPayout = 1,
+  averageType,
+  barrierType,
+  barrierLevel = 0,
+  barrierRebate = 0,
+  currency = 'usd',
+  coinSymbol = 'COIN',
+  expiryValueAt,
+  simulatedValues
 }) => {
+  const isCoin = currency === 'coin';
+  const isDigital = optionStyle === 'cash-or-nothing' || optionStyle === 'asset-or-nothing';
+  const hasBarrier = optionStyle === 'barrier' && barrierType !== undefined && barrierLevel > 0;
+  const isSimulated = simulatedValues !== undefined && simulatedValues.length > 0;
+  // The final price alone does not tell whether the barrier was hit, so both outcomes are drawn
+  const showsBarrierOutcomes = hasBarrier && !expiryValueAt && !isSimulated;
+
+  // Vanilla payoff at expiry for a given asset price
+  const intrinsicValue = (price: number) => optionType === 'call'
+    ? Math.max(0, price - strikePrice)
+    : Math.max(0, strikePrice - price);
+
+  // Value at expiry of a barrier option whose barrier was or was not hit during its life
+  const barrierValue = (price: number, isHit: boolean) => {
+    const isActive = barrierType?.endsWith('in') ? isHit : !isHit;
+    return isActive ? intrinsicValue(price) : barrierRebate;
+  };
+
+  // A path that ends beyond the barrier must have crossed it
+  const isBeyondBarrier = (price: number) =>
+    barrierType?.startsWith('down') ? price < barrierLevel : price > barrierLevel;
+
+  // USD value of the option at expiry for a given asset price
+  const expiryValue = (price: number) => {
+    if (expiryValueAt) {
+      return expiryValueAt(price);
+    }
+    const intrinsic = intrinsicValue(price);
+
+    if (optionStyle === 'vanilla' || optionStyle === 'asian' || optionStyle === 'barrier') {
+      // An average-strike option is drawn with its expected average as the strike
+      return intrinsic;
+    }
+    // Digitals pay in full from the strike onwards, so the step sits exactly at the strike
+    const inTheMoney = optionType === 'call' ? price >= strikePrice : price < strikePrice;
+    if (!inTheMoney) {
+      return 0;
+    }
+    return optionStyle === 'cash-or-nothing' ? cashPayout : price;
+  };
+  const priceAxisLabel = optionStyle === 'compound'
+    ? 'Price at Compound Expiry'
+    : averageType === 'average-price'
+      ? 'Average Price'
+      : averageType === 'average-strike' || isSimulated ? 'Final Price' : 'Asset Price';
+  const formatPayoff = (value: number) =>
+    isCoin ? `${value.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${coinSymbol}` : `$${value.toLocaleString()}`;
+
+  // Buyer and seller payoffs for one price point
+  const toDataPoint = (price: number, value: number) => {
+    // An inverse option pays its USD value converted to coin at expiry
+    const intrinsic = isCoin ? value / price : value;
+    const decimals = isCoin ? 6 : 2;
+    return {
+      price: Number(price.toFixed(2)),
+      buyerPayoff: Number((intrinsic - premium).toFixed(decimals)),
+      sellerPayoff: Number((premium - intrinsic).toFixed(decimals))
+    };
+  };
+
+  // Average the simulated payoffs by final price, over the central 98% of outcomes
+  const generateSimulatedData = (samples: { finalPrice: number; payoff: number }[]) => {
+    const sorted = [...samples].sort((a, b) => a.finalPrice - b.finalPrice);
+    const minPrice = sorted[Math.floor(sorted.length * 0.01)].finalPrice;
+    const maxPrice = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))].finalPrice;
+    const width = (maxPrice - minPrice) / SIMULATION_BINS;
+    if (width <= 0) {
+      return [];
+    }
+
+    const sums = new Array<number>(SIMULATION_BINS).fill(0);
+    const counts = new Array<number>(SIMULATION_BINS).fill(0);
+    for (const sample of sorted) {
+      if (sample.finalPrice < minPrice || sample.finalPrice > maxPrice) {
+        continue;
+      }
+      const bin = Math.min(SIMULATION_BINS - 1, Math.floor((sample.finalPrice - minPrice) / width));
+      sums[bin] += sample.payoff;
+      counts[bin]++;
+    }
+
+    const data = [];
+    for (let bin = 0; bin < SIMULATION_BINS; bin++) {
+      const price = minPrice + (bin + 0.5) * width;
+      if (counts[bin] === 0 || (isCoin && price <= 0)) {
+        continue;
+      }
+      data.push(toDataPoint(price, sums[bin] / counts[bin]));
+    }
+    return data;
+  };
+
   // Generate data points for the graph
   const generateData = () => {
+    if (isSimulated) {
+      return generateSimulatedData(simulatedValues);
+    }
+
     const data = [];
-    // Extend the range to show more of the payoff curve
-    const minPrice = Math.max(0, strikePrice - spotPrice * 0.75);
-    const maxPrice = strikePrice + spotPrice * 0.75;
+    // Extend the range to show more of the payoff curve, and the barrier if there is one
+    let minPrice = Math.max(0, strikePrice - spotPrice * 0.75);
+    let maxPrice = strikePrice + spotPrice * 0.75;
+    if (allowNegativePrices) {
+      // Size the range on the larger of the spot and strike so it never collapses at zero
+      const halfRange = Math.max(Math.abs(spotPrice), Math.abs(strikePrice), 1) * 0.75;
+      minPrice = Math.min(spotPrice, strikePrice) - halfRange;
+      maxPrice = Math.max(spotPrice, strikePrice) + halfRange;
+    }
+    if (hasBarrier) {
+      minPrice = Math.max(0, Math.min(minPrice, barrierLevel - spotPrice * 0.1));
+      maxPrice = Math.max(maxPrice, barrierLevel + spotPrice * 0.1);
+    }
     const step = (maxPrice - minPrice) / 100; // Increase data points for smoother curves
 
+    const prices: number[] = [];
     for (let price = minPrice; price <= maxPrice; price += step) {
-      let buyerPayoff = 0;
-      let sellerPayoff = 0;
-
-      if (optionType === 'call') {
-        buyerPayoff = Math.max(0, price - strikePrice) - premium;
-        sellerPayoff = premium - Math.max(0, price - strikePrice);
-      } else {
-        buyerPayoff = Math.max(0, strikePrice - price) - premium;
-        sellerPayoff = premium - Math.max(0, strikePrice - price);
-      }
+      prices.push(price);
+    }
+    // Include the strike and barrier so steps are drawn at the right price
+    if (isDigital) {
+      prices.push(strikePrice);
+    }
+    if (hasBarrier) {
+      prices.push(barrierLevel);
+    }
+    prices.sort((a, b) => a - b);
 
-      data.push({
-        price: Number(price.toFixed(2)),
-        buyerPayoff: Number(buyerPayoff.toFixed(2)),
-        sellerPayoff: Number(sellerPayoff.toFixed(2))
-      });
+    for (const price of prices) {
+      if (isCoin && price <= 0) {
+        continue;
+      }
+      if (showsBarrierOutcomes) {
+        // The not-hit line stops at the barrier, since no such path ends beyond it
+        const hit = toDataPoint(price, barrierValue(price, true));
+        const notHit = isBeyondBarrier(price) ? null : toDataPoint(price, barrierValue(price, false));
+        data.push({
+          price: hit.price,
+          buyerPayoff: notHit ? notHit.buyerPayoff : null,
+          sellerPayoff: notHit ? notHit.sellerPayoff : null,
+          buyerPayoffHit: hit.buyerPayoff,
+          sellerPayoffHit: hit.sellerPayoff
+        });
+        continue;
+      }
+      data.push(toDataPoint(price, expiryValue(price)));
     }
 
     return data;
@@ -60,14 +213,16 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
       return (
         <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 rounded-lg shadow-lg">
           <p className="text-gray-600 dark:text-gray-300 font-medium mb-2 text-xs sm:text-sm">
-            Asset Price: ${Number(label).toLocaleString()}
-          </p>
-          <p className="text-emerald-600 font-medium mb-1 text-xs sm:text-sm">
-            Buyer Payoff: ${payload[0].value.toLocaleString()}
-          </p>
-          <p className="text-red-600 font-medium text-xs sm:text-sm">
-            Seller Payoff: ${payload[1].value.toLocaleString()}
+            {priceAxisLabel}: ${Number(label).toLocaleString()}
           </p>
+          {payload.filter((entry: TooltipEntry) => entry.value !== null).map((entry: TooltipEntry) => (
+            <p
+              key={entry.dataKey}
+              className={`${String(entry.dataKey).startsWith('buyer') ? 'text-emerald-600' : 'text-red-600'} font-medium mb-1 last:mb-0 text-xs sm:text-sm`}
+            >
+              {entry.name}: {formatPayoff(entry.value as number)}
+            </p>
+          ))}
         </div>
       );
     }
@@ -89,7 +244,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
         <XAxis 
           dataKey="price" 
           label={{ 
-            value: 'Asset Price ($)', 
+            value: `${priceAxisLabel} ($)`, 
             position: 'insideBottom', 
             offset: -5,
             style: { 
@@ -105,7 +260,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
         />
         <YAxis 
           label={{ 
-            value: 'Payoff ($)', 
+            value: isCoin ? `Payoff (${coinSymbol})` : 'Payoff ($)', 
             angle: -90, 
             position: 'insideLeft',
             offset: 0,
@@ -115,7 +270,7 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
               fill: '#6B7280'
             }
           }}
-          tickFormatter={(value) => `$${value}`}
+          tickFormatter={(value) => isCoin ? `${value}` : `$${value}`}
           stroke="#6B7280"
           tick={{ fontSize: 11 }}
           tickMargin={5}
@@ -132,24 +287,61 @@ export const PayoffGraph: React.FC<PayoffGraphProps> = ({
             fontSize: '12px'
           }}
         />
+        {hasBarrier && (
+          <ReferenceLine
+            x={Number(barrierLevel.toFixed(2))}
+            stroke="#f59e0b"
+            strokeDasharray="4 4"
+            label={{
+              value: 'Barrier',
+              position: 'insideTopRight',
+              fontSize: 11,
+              fill: '#f59e0b'
+            }}
+          />
+        )}
         <Line
-          type="monotone"
+          type={isDigital ? "stepAfter" : hasBarrier ? "linear" : "monotone"}
           dataKey="buyerPayoff"
           stroke="#22c55e"
-          name="Buyer Payoff"
+          name={isSimulated ? "Buyer Payoff (simulated)" : showsBarrierOutcomes ? "Buyer Payoff (barrier not hit)" : "Buyer Payoff"}
           dot={false}
           strokeWidth={2}
           activeDot={{ r: 6, stroke: '#15803d', strokeWidth: 2 }}
         />
         <Line
-          type="monotone"
+          type={isDigital ? "stepAfter" : hasBarrier ? "linear" : "monotone"}
           dataKey="sellerPayoff"
           stroke="#ef4444"
-          name="Seller Payoff"
+          name={isSimulated ? "Seller Payoff (simulated)" : showsBarrierOutcomes ? "Seller Payoff (barrier not hit)" : "Seller Payoff"}
           dot={false}
           strokeWidth={2}
           activeDot={{ r: 6, stroke: '#b91c1c', strokeWidth: 2 }}
         />
+        {showsBarrierOutcomes && (
+          <Line
+            type="linear"
+            dataKey="buyerPayoffHit"
+            stroke="#22c55e"
+            strokeDasharray="6 4"
+            name="Buyer Payoff (barrier hit)"
+            dot={false}
+            strokeWidth={2}
+            activeDot={{ r: 6, stroke: '#15803d', strokeWidth: 2 }}
+          />
+        )}
+        {showsBarrierOutcomes && (
+          <Line
+            type="linear"
+            dataKey="sellerPayoffHit"
+            stroke="#ef4444"
+            strokeDasharray="6 4"
+            name="Seller Payoff (barrier hit)"
+            dot={false}
+            strokeWidth={2}
+            activeDot={{ r: 6, stroke: '#b91c1c', strokeWidth: 2 }}
+          />
+        )}
       </LineChart>
     </ResponsiveContainer>
   );
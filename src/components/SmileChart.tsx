@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  TooltipProps
+} from 'recharts';
+
+interface SmileChartProps {
+  data: { strike: number; volatility: number }[];  // Implied volatility (%) by strike
+  strikePrice: number;
+  forwardPrice: number;
+}
+
+export const SmileChart: React.FC<SmileChartProps> = ({
+  data,
+  strikePrice,
+  forwardPrice
+}) => {
+  const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 rounded-lg shadow-lg">
+          <p className="text-gray-600 dark:text-gray-300 font-medium mb-2 text-xs sm:text-sm">
+            Strike: ${Number(label).toLocaleString()}
+          </p>
+          <p className="text-blue-600 font-medium text-xs sm:text-sm">
+            Implied Vol: {Number(payload[0].value).toFixed(2)}%
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart
+        data={data}
+        margin={{
+          top: 10,
+          right: 10,
+          left: 10,
+          bottom: 10,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
+        <XAxis
+          dataKey="strike"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          label={{
+            value: 'Strike ($)',
+            position: 'insideBottom',
+            offset: -5,
+            style: {
+              textAnchor: 'middle',
+              fontSize: '12px',
+              fill: '#6B7280'
+            }
+          }}
+          tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+          stroke="#6B7280"
+          tick={{ fontSize: 11 }}
+          tickMargin={5}
+        />
+        <YAxis
+          domain={['auto', 'auto']}
+          label={{
+            value: 'Implied Vol (%)',
+            angle: -90,
+            position: 'insideLeft',
+            offset: 0,
+            style: {
+              textAnchor: 'middle',
+              fontSize: '12px',
+              fill: '#6B7280'
+            }
+          }}
+          tickFormatter={(value) => `${Number(value).toFixed(0)}%`}
+          stroke="#6B7280"
+          tick={{ fontSize: 11 }}
+          tickMargin={5}
+        />
+        <Tooltip
+          content={<CustomTooltip />}
+          cursor={{ stroke: '#6B7280', strokeWidth: 1 }}
+        />
+        <ReferenceLine
+          x={forwardPrice}
+          stroke="#6B7280"
+          strokeDasharray="4 4"
+          label={{
+            value: 'Forward',
+            position: 'insideTopLeft',
+            fontSize: 11,
+            fill: '#6B7280'
+          }}
+        />
+        <ReferenceLine
+          x={strikePrice}
+          stroke="#f59e0b"
+          strokeDasharray="4 4"
+          label={{
+            value: 'Strike',
+            position: 'insideTopRight',
+            fontSize: 11,
+            fill: '#f59e0b'
+          }}
+        />
+        <Line
+          type="monotone"
+          dataKey="volatility"
+          stroke="#3b82f6"
+          name="Implied Vol"
+          dot={false}
+          strokeWidth={2}
+          activeDot={{ r: 6, stroke: '#1d4ed8', strokeWidth: 2 }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,604 @@
+import React, { useState, useEffect } from "react";
+import { Info, Layers } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import {
+  calculateBasketPremium,
+  calculateBasketVolatility,
+  calculateExchangePremium,
+  calculateExchangeVolatility,
+  calculateSpreadPremium,
+  calculateSpreadVolatility,
+  twoAssetPayoff,
+  TwoAssetStructure,
+  TwoAssetUnderlying,
+} from "@/utils/twoAssetOptions";
+import { simulateTwoAssetPrice, MonteCarloResult } from "@/utils/monteCarlo";
+import { toast } from "sonner";
+import { track } from '@vercel/analytics';
+
+const structureLabels: Record<TwoAssetStructure, string> = {
+  "exchange": "Exchange (Margrabe)",
+  "spread": "Spread (Kirk)",
+  "basket": "Basket (Moment Matching)"
+};
+
+// Price, volatility and yield of one asset as entered, in percent where applicable
+interface AssetInputs {
+  price: number;
+  volatility: number;
+  dividendYield: number;
+}
+
+const inputClassName = "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary";
+
+export const TwoAssetCalculator = () => {
+  // Form state
+  const [structure, setStructure] = useState<TwoAssetStructure>("spread");
+  const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [firstAsset, setFirstAsset] = useState<AssetInputs>({ price: 3000, volatility: 80, dividendYield: 0 });
+  const [secondAsset, setSecondAsset] = useState<AssetInputs>({ price: 2800, volatility: 60, dividendYield: 0 });
+  const [correlation, setCorrelation] = useState<number>(0.7);
+  const [riskFreeRate, setRiskFreeRate] = useState<number>(0);
+  const [daysToExpiry, setDaysToExpiry] = useState<number>(30);
+  const [strikePrice, setStrikePrice] = useState<number>(200);
+  const [weights, setWeights] = useState<[number, number]>([1, 1]);
+  const [monteCarloPaths, setMonteCarloPaths] = useState<number>(20000);
+  const [monteCarloSeed, setMonteCarloSeed] = useState<number>(42);
+  const [antitheticPaths, setAntitheticPaths] = useState<boolean>(true);
+
+  // Results
+  const [premium, setPremium] = useState<number>(0);
+  const [effectiveVolatility, setEffectiveVolatility] = useState<number>(0);
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+
+  useEffect(() => {
+    try {
+      const timeToExpiry = daysToExpiry / 365;
+      const riskFreeRateDecimal = riskFreeRate / 100;
+      const isCall = optionType === "call";
+      const toUnderlying = (asset: AssetInputs): TwoAssetUnderlying => ({
+        spotPrice: asset.price,
+        volatility: asset.volatility / 100,
+        dividendYield: asset.dividendYield / 100
+      });
+      const first = toUnderlying(firstAsset);
+      const second = toUnderlying(secondAsset);
+
+      if (structure === "exchange") {
+        setPremium(calculateExchangePremium(first, second, timeToExpiry, correlation, isCall));
+        setEffectiveVolatility(calculateExchangeVolatility(first, second, correlation));
+      } else if (structure === "spread") {
+        setPremium(calculateSpreadPremium(
+          first, second, strikePrice, timeToExpiry, correlation, riskFreeRateDecimal, isCall
+        ));
+        setEffectiveVolatility(calculateSpreadVolatility(
+          first, second, strikePrice, timeToExpiry, correlation, riskFreeRateDecimal
+        ));
+      } else {
+        setPremium(calculateBasketPremium(
+          first, second, weights, strikePrice, timeToExpiry, correlation, riskFreeRateDecimal, isCall
+        ));
+        setEffectiveVolatility(calculateBasketVolatility(
+          first, second, weights, timeToExpiry, correlation, riskFreeRateDecimal
+        ));
+      }
+
+      // Simulate the exact payoff to show how far the closed form is from the true price
+      setSimulation(simulateTwoAssetPrice(
+        first,
+        second,
+        timeToExpiry,
+        correlation,
+        riskFreeRateDecimal,
+        twoAssetPayoff(structure, isCall, strikePrice, weights),
+        { paths: monteCarloPaths, seed: monteCarloSeed, antithetic: antitheticPaths }
+      ));
+    } catch (error) {
+      console.error("Calculation error:", error);
+      toast.error("Error calculating option values. Please check your inputs.");
+    }
+  }, [
+    structure,
+    optionType,
+    firstAsset,
+    secondAsset,
+    correlation,
+    riskFreeRate,
+    daysToExpiry,
+    strikePrice,
+    weights,
+    monteCarloPaths,
+    monteCarloSeed,
+    antitheticPaths
+  ]);
+
+  // Track structure changes
+  const handleStructureChange = (value: TwoAssetStructure) => {
+    setStructure(value);
+    track('two_asset_structure_changed', { structure: value });
+  };
+
+  // Track option type changes
+  const handleOptionTypeChange = (value: "call" | "put") => {
+    setOptionType(value);
+    track('two_asset_option_type_changed', { type: value });
+  };
+
+  // Parse a number input, ignoring values below the minimum
+  const parseInput = (value: string, min: number = 0): number | null => {
+    if (value === "") {
+      return 0; // Allow clearing input
+    }
+    const parsed = parseFloat(value);
+    return !isNaN(parsed) && parsed >= min ? parsed : null;
+  };
+
+  const updateAsset = (
+    setter: React.Dispatch<React.SetStateAction<AssetInputs>>,
+    key: keyof AssetInputs,
+    value: string
+  ) => {
+    const parsed = parseInput(value);
+    if (parsed !== null) {
+      setter((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const hasStrike = structure !== "exchange";
+  const simulationGap = simulation ? premium - simulation.price : 0;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4 sm:mb-6">
+        <Layers className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+        <h1 className="text-lg sm:text-2xl font-bold text-foreground">Two-Asset Options</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6 mb-6">
+        {/* Input Section */}
+        <div className="col-span-1 lg:col-span-2 space-y-4 md:space-y-6">
+          <Card className="grecian-blur">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Two-Asset Parameters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                {/* Structure */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Structure</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            An exchange option swaps asset 2 for asset 1. A spread option pays on asset 1
+                            less asset 2 less the strike. A basket option pays on the weighted sum of both
+                            assets against the strike.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Select
+                    value={structure}
+                    onValueChange={(value) => handleStructureChange(value as TwoAssetStructure)}
+                  >
+                    <SelectTrigger className="transition-all duration-200 hover:border-primary text-sm sm:text-base">
+                      <SelectValue placeholder="Structure" />
+                    </SelectTrigger>
+                    <SelectContent className="animate-scale">
+                      {(Object.keys(structureLabels) as TwoAssetStructure[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {structureLabels[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Option Type */}
+                <div className="option-input-group">
+                  <Label className="option-label">Option Type</Label>
+                  <ToggleGroup
+                    type="single"
+                    value={optionType}
+                    onValueChange={(value) => value && handleOptionTypeChange(value as "call" | "put")}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem
+                      value="call"
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        optionType === "call" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      {structure === "exchange" ? "Receive 1" : "Call"}
+                    </ToggleGroupItem>
+                    <ToggleGroupItem
+                      value="put"
+                      className={cn(
+                        "transition-all duration-200 text-sm sm:text-base",
+                        optionType === "put" ? "bg-primary text-primary-foreground animate-scale" : ""
+                      )}
+                    >
+                      {structure === "exchange" ? "Receive 2" : "Put"}
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+
+                {/* Prices */}
+                <div className="option-input-group">
+                  <Label htmlFor="firstPrice" className="option-label">
+                    Spot Price ($): Asset 1 / Asset 2
+                  </Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      id="firstPrice"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={firstAsset.price}
+                      onChange={(e) => updateAsset(setFirstAsset, "price", e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="secondPrice"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={secondAsset.price}
+                      onChange={(e) => updateAsset(setSecondAsset, "price", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                {/* Volatilities */}
+                <div className="option-input-group">
+                  <Label htmlFor="firstVolatility" className="option-label">
+                    Volatility (%): Asset 1 / Asset 2
+                  </Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      id="firstVolatility"
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={firstAsset.volatility}
+                      onChange={(e) => updateAsset(setFirstAsset, "volatility", e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="secondVolatility"
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={secondAsset.volatility}
+                      onChange={(e) => updateAsset(setSecondAsset, "volatility", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                {/* Dividend Yields */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="firstDividendYield" className="option-label">
+                      Yield (%): Asset 1 / Asset 2
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Continuous dividend, staking or carry yield earned by holding each asset.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      id="firstDividendYield"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={firstAsset.dividendYield}
+                      onChange={(e) => updateAsset(setFirstAsset, "dividendYield", e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="secondDividendYield"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={secondAsset.dividendYield}
+                      onChange={(e) => updateAsset(setSecondAsset, "dividendYield", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                {/* Correlation */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="correlation" className="option-label">
+                      Correlation (ρ)
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Correlation of the two assets' returns, between -1 and 1. Higher correlation
+                            makes spreads cheaper and baskets more expensive.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Input
+                    id="correlation"
+                    type="number"
+                    step="0.05"
+                    min="-1"
+                    max="1"
+                    value={correlation}
+                    onChange={(e) => {
+                      const parsed = parseFloat(e.target.value);
+                      if (!isNaN(parsed) && parsed >= -1 && parsed <= 1) {
+                        setCorrelation(parsed);
+                      }
+                    }}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Risk-Free Rate */}
+                <div className="option-input-group">
+                  <Label htmlFor="twoAssetRiskFreeRate" className="option-label">
+                    Risk-Free Rate (%)
+                  </Label>
+                  <Input
+                    id="twoAssetRiskFreeRate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={riskFreeRate}
+                    onChange={(e) => {
+                      const parsed = parseInput(e.target.value);
+                      if (parsed !== null) {
+                        setRiskFreeRate(parsed);
+                      }
+                    }}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Days to Expiry */}
+                <div className="option-input-group">
+                  <Label htmlFor="twoAssetDays" className="option-label">
+                    Days to Expiry
+                  </Label>
+                  <Input
+                    id="twoAssetDays"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={daysToExpiry}
+                    onChange={(e) => {
+                      const parsed = parseInput(e.target.value);
+                      if (parsed !== null) {
+                        setDaysToExpiry(parsed);
+                      }
+                    }}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Strike */}
+                {hasStrike && (
+                  <div className="option-input-group">
+                    <Label htmlFor="twoAssetStrike" className="option-label">
+                      {structure === "spread" ? "Spread Strike ($)" : "Basket Strike ($)"}
+                    </Label>
+                    <Input
+                      id="twoAssetStrike"
+                      type="number"
+                      step="0.01"
+                      value={strikePrice}
+                      onChange={(e) => {
+                        // Spread strikes may be negative
+                        const parsed = e.target.value === "" ? 0 : parseFloat(e.target.value);
+                        if (!isNaN(parsed) && (structure === "spread" || parsed >= 0)) {
+                          setStrikePrice(parsed);
+                        }
+                      }}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+
+                {/* Basket Weights */}
+                {structure === "basket" && (
+                  <div className="option-input-group">
+                    <Label htmlFor="firstWeight" className="option-label">
+                      Units: Asset 1 / Asset 2
+                    </Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        id="firstWeight"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={weights[0]}
+                        onChange={(e) => {
+                          const parsed = parseInput(e.target.value);
+                          if (parsed !== null) {
+                            setWeights((prev) => [parsed, prev[1]]);
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                      <Input
+                        id="secondWeight"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={weights[1]}
+                        onChange={(e) => {
+                          const parsed = parseInput(e.target.value);
+                          if (parsed !== null) {
+                            setWeights((prev) => [prev[0], parsed]);
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Monte Carlo Settings */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="twoAssetPaths" className="option-label">
+                      Monte Carlo Paths / Seed
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            The exact payoff is simulated on correlated final prices to check the
+                            closed-form price, which is an approximation for spreads and baskets.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      id="twoAssetPaths"
+                      type="number"
+                      step="1000"
+                      min="100"
+                      max="200000"
+                      value={monteCarloPaths}
+                      onChange={(e) => {
+                        const parsed = parseInt(e.target.value);
+                        if (!isNaN(parsed) && parsed >= 100 && parsed <= 200000) {
+                          setMonteCarloPaths(parsed);
+                        }
+                      }}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="twoAssetSeed"
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={monteCarloSeed}
+                      onChange={(e) => {
+                        const parsed = parseInt(e.target.value);
+                        if (!isNaN(parsed) && parsed >= 0) {
+                          setMonteCarloSeed(parsed);
+                        }
+                      }}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div className="option-input-group">
+                  <Label htmlFor="twoAssetAntithetic" className="option-label">
+                    Antithetic Paths
+                  </Label>
+                  <Switch
+                    id="twoAssetAntithetic"
+                    checked={antitheticPaths}
+                    onCheckedChange={setAntitheticPaths}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Results Section */}
+        <div className="col-span-1 space-y-4 md:space-y-6">
+          <Card className="grecian-blur">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Option Premium</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl sm:text-3xl font-bold text-primary transition-all duration-200">
+                ${premium.toFixed(2)}
+              </div>
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                {structureLabels[structure]} {structure === "exchange"
+                  ? `receiving asset ${optionType === "call" ? 1 : 2}`
+                  : optionType}
+              </p>
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-xs sm:text-sm text-muted-foreground">Effective volatility</span>
+                <span className="font-medium text-xs sm:text-sm">{(effectiveVolatility * 100).toFixed(2)}%</span>
+              </div>
+              {simulation !== null && (
+                <>
+                  <div className="flex justify-between items-center mt-3">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Monte Carlo premium</span>
+                    <span className="font-medium text-xs sm:text-sm">${simulation.price.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                    ± ${simulation.standardError.toFixed(2)} standard error
+                  </p>
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    95% CI ${simulation.confidenceInterval[0].toFixed(2)} – ${simulation.confidenceInterval[1].toFixed(2)}
+                  </p>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs sm:text-sm text-muted-foreground">Closed form − simulation</span>
+                    <span className={cn(
+                      "font-medium text-xs sm:text-sm",
+                      Math.abs(simulationGap) > 2 * simulation.standardError && "text-amber-500"
+                    )}>
+                      ${simulationGap.toFixed(2)}
+                    </span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoAssetCalculator;
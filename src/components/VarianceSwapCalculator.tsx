@@ -0,0 +1,500 @@
+import React, { useState, useEffect } from "react";
+import { Info, Activity } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { calculateSabrVolatility, SabrParameters } from "@/utils/sabrModel";
+import {
+  calculateVarianceOfVariance,
+  calculateVolatilityConvexityAdjustment,
+  replicateVarianceSwap,
+  VarianceReplication,
+  varianceStrikeGrid,
+} from "@/utils/varianceSwap";
+import { SmileChart } from "./SmileChart";
+import { toast } from "sonner";
+
+// Listed strikes the strip may use
+interface StrikeGridInputs {
+  lowest: number;
+  highest: number;
+  spacing: number;
+}
+
+// The reference grid spans this many standard deviations of the log price either side
+// of the forward, in this many evenly spaced log steps, to stand in for a continuum of strikes
+const REFERENCE_STANDARD_DEVIATIONS = 10;
+const REFERENCE_STRIKES = 4000;
+
+// Grid replication errors above this share of the reference variance are flagged
+const GRID_ERROR_WARNING = 0.01;
+
+const inputClassName = "text-sm sm:text-base transition-all duration-200 hover:border-primary focus:border-primary";
+
+export const VarianceSwapCalculator = () => {
+  // Form state
+  const [spotPrice, setSpotPrice] = useState<number>(3000);
+  const [riskFreeRate, setRiskFreeRate] = useState<number>(0);
+  const [dividendYield, setDividendYield] = useState<number>(0);
+  const [daysToExpiry, setDaysToExpiry] = useState<number>(30);
+  // The smile is SABR with a lognormal backbone (β = 1), so ν also drives the vol-swap convexity
+  const [smileParams, setSmileParams] = useState<SabrParameters>({
+    alpha: 0.8,
+    beta: 1,
+    rho: -0.2,
+    nu: 1.5
+  });
+  const [strikeGrid, setStrikeGrid] = useState<StrikeGridInputs>({ lowest: 1500, highest: 5000, spacing: 100 });
+  const [vegaNotional, setVegaNotional] = useState<number>(10000);
+
+  // Results
+  const [replication, setReplication] = useState<VarianceReplication | null>(null);
+  const [referenceVariance, setReferenceVariance] = useState<number>(0);
+  const [forwardPrice, setForwardPrice] = useState<number>(0);
+  const [atmVolatility, setAtmVolatility] = useState<number>(0);
+  const [varianceOfVariance, setVarianceOfVariance] = useState<number>(0);
+
+  useEffect(() => {
+    try {
+      const timeToExpiry = daysToExpiry / 365;
+      const riskFreeRateDecimal = riskFreeRate / 100;
+      const dividendYieldDecimal = dividendYield / 100;
+      const forward = spotPrice * Math.exp((riskFreeRateDecimal - dividendYieldDecimal) * timeToExpiry);
+      const volatilityAt = (strike: number) => calculateSabrVolatility(forward, strike, timeToExpiry, smileParams);
+
+      const listedReplication = replicateVarianceSwap(
+        spotPrice,
+        varianceStrikeGrid(strikeGrid.lowest, strikeGrid.highest, strikeGrid.spacing),
+        timeToExpiry,
+        riskFreeRateDecimal,
+        volatilityAt,
+        dividendYieldDecimal
+      );
+
+      // The same replication on a dense, wide grid shows what the listed strikes miss
+      const halfWidth = REFERENCE_STANDARD_DEVIATIONS * smileParams.alpha * Math.sqrt(timeToExpiry);
+      const reference = replicateVarianceSwap(
+        spotPrice,
+        Array.from({ length: REFERENCE_STRIKES + 1 }, (_, i) =>
+          forward * Math.exp(halfWidth * (2 * i / REFERENCE_STRIKES - 1))
+        ),
+        timeToExpiry,
+        riskFreeRateDecimal,
+        volatilityAt,
+        dividendYieldDecimal
+      );
+
+      setReplication(listedReplication);
+      setReferenceVariance(reference.fairVariance);
+      setForwardPrice(forward);
+      setAtmVolatility(volatilityAt(forward));
+      setVarianceOfVariance(calculateVarianceOfVariance(listedReplication.fairVariance, smileParams.nu, timeToExpiry));
+    } catch (error) {
+      console.error("Calculation error:", error);
+      toast.error("Error calculating variance swap values. Please check your inputs.");
+    }
+  }, [spotPrice, riskFreeRate, dividendYield, daysToExpiry, smileParams, strikeGrid]);
+
+  // Parse a number input, ignoring values below the minimum
+  const parseInput = (value: string, min: number = 0): number | null => {
+    if (value === "") {
+      return 0; // Allow clearing input
+    }
+    const parsed = parseFloat(value);
+    return !isNaN(parsed) && parsed >= min ? parsed : null;
+  };
+
+  const updateNumber = (setter: React.Dispatch<React.SetStateAction<number>>, value: string) => {
+    const parsed = parseInput(value);
+    if (parsed !== null) {
+      setter(parsed);
+    }
+  };
+
+  const updateGrid = (key: keyof StrikeGridInputs, value: string) => {
+    const parsed = parseInput(value);
+    if (parsed !== null) {
+      setStrikeGrid((prev) => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const fairVariance = replication?.fairVariance ?? 0;
+  const fairVolatility = Math.sqrt(Math.max(0, fairVariance));
+  const convexityAdjustment = calculateVolatilityConvexityAdjustment(fairVariance, varianceOfVariance);
+  const gridError = fairVariance - referenceVariance;
+  // Variance notional in $ per vol² is the vega notional over twice the strike in vol points;
+  // strip weights are per unit of decimal variance, which is 100² vol²
+  const varianceNotional = fairVolatility > 0 ? vegaNotional / (2 * fairVolatility * 100) : 0;
+  const optionsPerWeight = varianceNotional * 100 * 100;
+  const strip = replication?.strip ?? [];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4 sm:mb-6">
+        <Activity className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+        <h1 className="text-lg sm:text-2xl font-bold text-foreground">Variance &amp; Volatility Swaps</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6 mb-6">
+        {/* Input Section */}
+        <div className="col-span-1 lg:col-span-2 space-y-4 md:space-y-6">
+          <Card className="grecian-blur">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Swap Parameters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                {/* Spot Price */}
+                <div className="option-input-group">
+                  <Label htmlFor="varianceSpotPrice" className="option-label">
+                    Spot Price ($)
+                  </Label>
+                  <Input
+                    id="varianceSpotPrice"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={spotPrice}
+                    onChange={(e) => updateNumber(setSpotPrice, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Days to Expiry */}
+                <div className="option-input-group">
+                  <Label htmlFor="varianceDays" className="option-label">
+                    Days to Expiry
+                  </Label>
+                  <Input
+                    id="varianceDays"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={daysToExpiry}
+                    onChange={(e) => updateNumber(setDaysToExpiry, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Rates */}
+                <div className="option-input-group">
+                  <Label htmlFor="varianceRiskFreeRate" className="option-label">
+                    Risk-Free Rate / Yield (%)
+                  </Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      id="varianceRiskFreeRate"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={riskFreeRate}
+                      onChange={(e) => updateNumber(setRiskFreeRate, e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="varianceDividendYield"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={dividendYield}
+                      onChange={(e) => updateNumber(setDividendYield, e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                {/* Vega Notional */}
+                <div className="option-input-group">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="vegaNotional" className="option-label">
+                      Vega Notional ($)
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Profit per vol point of realized volatility above the strike. The variance
+                            notional is the vega notional divided by twice the volatility strike, and
+                            sets how many of each option the strip holds.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Input
+                    id="vegaNotional"
+                    type="number"
+                    step="1000"
+                    min="0"
+                    value={vegaNotional}
+                    onChange={(e) => updateNumber(setVegaNotional, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {/* Smile */}
+                <div className="option-input-group sm:col-span-2">
+                  <div className="flex items-center gap-1">
+                    <Label className="option-label">Volatility Smile (SABR, β = 1)</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            Each option in the strip is priced with Black-Scholes at the SABR volatility of
+                            its strike. ν is also the volatility of volatility behind the vol-swap
+                            convexity adjustment; set it to 0 for a flat smile and no adjustment.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="variance-alpha" className="text-xs text-muted-foreground">
+                        α (Vol Level)
+                      </Label>
+                      <Input
+                        id="variance-alpha"
+                        type="number"
+                        step="0.05"
+                        min="0.0001"
+                        value={smileParams.alpha}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!isNaN(parsed) && parsed >= 0.0001) {
+                            setSmileParams((params) => ({ ...params, alpha: parsed }));
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="variance-rho" className="text-xs text-muted-foreground">
+                        ρ (Correlation)
+                      </Label>
+                      <Input
+                        id="variance-rho"
+                        type="number"
+                        step="0.05"
+                        min="-0.99" max="0.99"
+                        value={smileParams.rho}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!isNaN(parsed) && parsed >= -0.99 && parsed <= 0.99) {
+                            setSmileParams((params) => ({ ...params, rho: parsed }));
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="variance-nu" className="text-xs text-muted-foreground">
+                        ν (Vol of Vol)
+                      </Label>
+                      <Input
+                        id="variance-nu"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={smileParams.nu}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!isNaN(parsed) && parsed >= 0) {
+                            setSmileParams((params) => ({ ...params, nu: parsed }));
+                          }
+                        }}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Strike Grid */}
+                <div className="option-input-group sm:col-span-2">
+                  <div className="flex items-center gap-1">
+                    <Label htmlFor="gridLowest" className="option-label">
+                      Listed Strikes ($): Lowest / Highest / Spacing
+                    </Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground hover:text-primary transition-colors duration-200" />
+                        </TooltipTrigger>
+                        <TooltipContent className="animate-scale">
+                          <p className="max-w-xs text-xs">
+                            The strip holds puts below and calls above the highest strike at or below the
+                            forward. Wide spacing overstates the variance between strikes, and a narrow
+                            range misses the variance in the wings.
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      id="gridLowest"
+                      type="number"
+                      step="100"
+                      min="0"
+                      value={strikeGrid.lowest}
+                      onChange={(e) => updateGrid("lowest", e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="gridHighest"
+                      type="number"
+                      step="100"
+                      min="0"
+                      value={strikeGrid.highest}
+                      onChange={(e) => updateGrid("highest", e.target.value)}
+                      className={inputClassName}
+                    />
+                    <Input
+                      id="gridSpacing"
+                      type="number"
+                      step="10"
+                      min="0"
+                      value={strikeGrid.spacing}
+                      onChange={(e) => updateGrid("spacing", e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Results Section */}
+        <div className="col-span-1 space-y-4 md:space-y-6">
+          <Card className="grecian-blur">
+            <CardHeader className="pb-2 sm:pb-3">
+              <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Fair Strikes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl sm:text-3xl font-bold text-primary transition-all duration-200">
+                {(fairVolatility * 100).toFixed(2)}%
+              </div>
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                Variance strike √K_var (K_var = {(fairVariance * 100 * 100).toFixed(1)} vol²)
+              </p>
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-xs sm:text-sm text-muted-foreground">ATM implied volatility</span>
+                <span className="font-medium text-xs sm:text-sm">{(atmVolatility * 100).toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-xs sm:text-sm text-muted-foreground">Forward / boundary strike</span>
+                <span className="font-medium text-xs sm:text-sm">
+                  ${forwardPrice.toFixed(2)} / ${(replication?.boundaryStrike ?? 0).toFixed(2)}
+                </span>
+              </div>
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-xs sm:text-sm text-muted-foreground">Continuous-strike variance strike</span>
+                <span className="font-medium text-xs sm:text-sm">
+                  {(Math.sqrt(Math.max(0, referenceVariance)) * 100).toFixed(2)}%
+                </span>
+              </div>
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-xs sm:text-sm text-muted-foreground">Listed grid − continuous</span>
+                <span className={cn(
+                  "font-medium text-xs sm:text-sm",
+                  referenceVariance > 0 && Math.abs(gridError) > GRID_ERROR_WARNING * referenceVariance && "text-amber-500"
+                )}>
+                  {(gridError * 100 * 100).toFixed(1)} vol²
+                </span>
+              </div>
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-xs sm:text-sm text-muted-foreground">Convexity adjustment</span>
+                <span className="font-medium text-xs sm:text-sm">−{(convexityAdjustment * 100).toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-xs sm:text-sm text-muted-foreground">Volatility swap strike</span>
+                <span className="font-medium text-xs sm:text-sm">
+                  {((fairVolatility - convexityAdjustment) * 100).toFixed(2)}%
+                </span>
+              </div>
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                Realized variance std. dev. {(Math.sqrt(varianceOfVariance) * 100 * 100).toFixed(1)} vol²
+              </p>
+              <div className="flex justify-between items-center mt-3">
+                <span className="text-xs sm:text-sm text-muted-foreground">Variance notional</span>
+                <span className="font-medium text-xs sm:text-sm">
+                  ${varianceNotional.toFixed(2)} per vol²
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Replicating Strip */}
+      <Card className="grecian-blur w-full">
+        <CardHeader className="pb-2 sm:pb-3">
+          <CardTitle className="text-base sm:text-lg font-semibold text-foreground">Replicating Strip</CardTitle>
+        </CardHeader>
+        <CardContent className="p-2 sm:p-4 space-y-4">
+          <div className="w-full aspect-[4/3] sm:aspect-[16/9] lg:aspect-[2/1] rounded-lg overflow-hidden">
+            <SmileChart
+              data={strip
+                .map((option) => ({ strike: option.strike, volatility: option.volatility * 100 }))
+                .sort((a, b) => a.strike - b.strike)}
+              strikePrice={replication?.boundaryStrike ?? 0}
+              forwardPrice={Number(forwardPrice.toFixed(2))}
+            />
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strike</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Implied Vol</TableHead>
+                  <TableHead className="text-right">Premium</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {strip.map((option) => (
+                  <TableRow key={`${option.isCall ? "call" : "put"}-${option.strike}`}>
+                    <TableCell>${option.strike.toFixed(2)}</TableCell>
+                    <TableCell>{option.isCall ? "Call" : "Put"}</TableCell>
+                    <TableCell className="text-right">{(option.volatility * 100).toFixed(2)}%</TableCell>
+                    <TableCell className="text-right">${option.premium.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{(option.weight * optionsPerWeight).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      ${(option.weight * optionsPerWeight * option.premium).toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VarianceSwapCalculator;
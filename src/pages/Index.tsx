@@ -1,16 +1,39 @@
 
 import React from "react";
 import OptionCalculator from "@/components/OptionCalculator";
+import TwoAssetCalculator from "@/components/TwoAssetCalculator";
+import VarianceSwapCalculator from "@/components/VarianceSwapCalculator";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { track } from '@vercel/analytics';
 
 const Index = () => {
   return (
     <div className="min-h-screen bg-groww-lightBg dark:bg-groww-darkBg py-8 px-4 sm:px-6 transition-colors duration-200">
       <div className="max-w-4xl mx-auto">
-        <div className="flex justify-end mb-4">
-          <ThemeToggle />
-        </div>
-        <OptionCalculator />
+        <Tabs
+          defaultValue="single"
+          onValueChange={(value) => track('calculator_tab_changed', { tab: value })}
+        >
+          <div className="flex items-center justify-between mb-4 px-4 sm:px-6">
+            <TabsList>
+              <TabsTrigger value="single" className="text-xs sm:text-sm">Single Asset</TabsTrigger>
+              <TabsTrigger value="two-asset" className="text-xs sm:text-sm">Two Assets</TabsTrigger>
+              <TabsTrigger value="variance-swap" className="text-xs sm:text-sm">Variance Swaps</TabsTrigger>
+            </TabsList>
+            <ThemeToggle />
+          </div>
+          {/* Keep every calculator mounted so switching tabs preserves their inputs */}
+          <TabsContent value="single" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <OptionCalculator />
+          </TabsContent>
+          <TabsContent value="two-asset" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <TwoAssetCalculator />
+          </TabsContent>
+          <TabsContent value="variance-swap" forceMount className="mt-0 data-[state=inactive]:hidden">
+            <VarianceSwapCalculator />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
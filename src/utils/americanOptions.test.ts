@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { AmericanEngine, calculateAmericanPremium, REFERENCE_TREE_STEPS } from "./americanOptions";
+import { calculateOptionPremium } from "./blackScholes";
+
+const ENGINES: AmericanEngine[] = ["binomial", "trinomial", "crank-nicolson", "barone-adesi-whaley", "bjerksund-stensland"];
+
+describe("calculateAmericanPremium", () => {
+  const reference = calculateAmericanPremium(
+    "binomial", 100, 100, 1, 0.3, 0.05, false, { treeSteps: REFERENCE_TREE_STEPS, gridSize: { spotSteps: 200, timeSteps: 200 } }
+  );
+
+  // The approximations are only good to about 1%; Bjerksund-Stensland is a lower bound
+  it.each(ENGINES)("prices an American put within 1% of the binomial reference with %s", (engine) => {
+    const premium = calculateAmericanPremium(engine, 100, 100, 1, 0.3, 0.05, false);
+    expect(Math.abs(premium - reference) / reference).toBeLessThan(0.01);
+  });
+
+  it("adds an early-exercise premium to the European put", () => {
+    expect(reference).toBeGreaterThan(calculateOptionPremium(100, 100, 1, 0.3, 0.05, false));
+  });
+
+  it.each(ENGINES)("prices a call without dividends as European with %s", (engine) => {
+    const premium = calculateAmericanPremium(engine, 100, 100, 1, 0.3, 0.05, true);
+    expect(Math.abs(premium - calculateOptionPremium(100, 100, 1, 0.3, 0.05, true))).toBeLessThan(0.02);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * American Option Engines
+ *
+ * This utility prices an American vanilla option with any of the available
+ * engines: binomial and trinomial trees, a Crank-Nicolson grid, or the
+ * Barone-Adesi-Whaley and Bjerksund-Stensland closed-form approximations.
+ */
+
+import {
+  AmericanApproximation,
+  calculateBaroneAdesiWhaleyPremium,
+  calculateBjerksundStenslandPremium,
+  calculateOptionPremium
+} from "./blackScholes";
+import { calculatePdePremium, DEFAULT_GRID_SIZE, GridSize } from "./finiteDifference";
+import { calculateTreePremium, TreeMethod } from "./latticeModels";
+
+export type AmericanEngine = TreeMethod | "crank-nicolson" | AmericanApproximation;
+
+export interface AmericanEngineSettings {
+  treeSteps: number;  // Number of time steps for the binomial and trinomial trees
+  gridSize: GridSize; // Grid for the Crank-Nicolson engine
+}
+
+// Steps of the binomial tree the engines are compared against
+export const REFERENCE_TREE_STEPS = 2000;
+
+// Price an American option with the chosen engine
+export function calculateAmericanPremium(
+  engine: AmericanEngine,
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  settings: AmericanEngineSettings = { treeSteps: 200, gridSize: DEFAULT_GRID_SIZE },
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  if (engine === "binomial" || engine === "trinomial") {
+    return calculateTreePremium(
+      spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, true, settings.treeSteps, dividendYield, engine
+    );
+  }
+  if (engine === "crank-nicolson") {
+    return calculatePdePremium(
+      spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, true, settings.gridSize, dividendYield
+    );
+  }
+  const approximation = engine === "barone-adesi-whaley"
+    ? calculateBaroneAdesiWhaleyPremium
+    : calculateBjerksundStenslandPremium;
+  return approximation(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+}
+
+// Value of early exercise: the American premium less a European option priced on the
+// same tree or grid, so that discretization error cancels, or less the closed form for
+// the analytic approximations
+export function calculateEarlyExercisePremium(
+  americanPremium: number,  // Premium of the American option from the same engine
+  engine: AmericanEngine,
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  settings: AmericanEngineSettings = { treeSteps: 200, gridSize: DEFAULT_GRID_SIZE },
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  let europeanPremium: number;
+  if (engine === "binomial" || engine === "trinomial") {
+    europeanPremium = calculateTreePremium(
+      spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, false, settings.treeSteps, dividendYield, engine
+    );
+  } else if (engine === "crank-nicolson") {
+    europeanPremium = calculatePdePremium(
+      spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, false, settings.gridSize, dividendYield
+    );
+  } else {
+    europeanPremium = calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+  }
+  return Math.max(0, americanPremium - europeanPremium);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { buildAveragingSchedule, MAX_FIXINGS } from "./asianOptions";
+
+describe("buildAveragingSchedule", () => {
+  it("counts fixings back from expiry at the given interval", () => {
+    const schedule = buildAveragingSchedule(30 / 365, 30 / 365, 1 / 365);
+    expect(schedule.fixingTimes).toHaveLength(30);
+    expect(schedule.fixingTimes[29]).toBeCloseTo(30 / 365, 15);
+    expect(schedule.fixingTimes[0]).toBeCloseTo(1 / 365, 15);
+  });
+
+  it("reports past fixings that have no fixed observation", () => {
+    // A 30-day daily window with 10 days left has fixed 20 times
+    expect(buildAveragingSchedule(10 / 365, 30 / 365, 1 / 365).missingCount).toBe(20);
+    expect(buildAveragingSchedule(10 / 365, 30 / 365, 1 / 365, 20, 100).missingCount).toBe(0);
+    expect(buildAveragingSchedule(30 / 365, 30 / 365, 1 / 365).missingCount).toBe(0);
+  });
+
+  it("thins long hourly windows to evenly spaced fixings", () => {
+    const schedule = buildAveragingSchedule(1, 1, 1 / (365 * 24));
+    expect(schedule.fixingTimes).toHaveLength(MAX_FIXINGS);
+    expect(schedule.fixingTimes[0]).toBeCloseTo(1 / MAX_FIXINGS, 12);
+    expect(schedule.fixingTimes[MAX_FIXINGS - 1]).toBe(1);
+  });
+
+  it("keeps the share of fixed observations when thinning", () => {
+    // Half of an hourly year has fixed
+    const schedule = buildAveragingSchedule(0.5, 1, 1 / (365 * 24), 365 * 12, 100);
+    expect(schedule.fixedCount).toBe(MAX_FIXINGS / 2);
+    expect(schedule.fixingTimes).toHaveLength(MAX_FIXINGS / 2);
+    expect(schedule.fixedAverage).toBe(100);
+  });
+});
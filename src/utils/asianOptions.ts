@@ -0,0 +1,257 @@
+/**
+ * Asian (Average) Option Pricing
+ *
+ * This utility prices discretely sampled average-price and average-strike
+ * options: an exact closed form for the geometric average and a
+ * Turnbull-Wakeman / Levy moment-matching approximation for the arithmetic
+ * average. Observations that have already fixed are folded into the average.
+ */
+
+import { calculateGreeks, calculateFiniteDifferenceGreeks, normalCDF } from "./blackScholes";
+
+// Average-price options replace the final price with the average;
+// average-strike options replace the strike with it
+export type AverageType = "average-price" | "average-strike";
+
+export interface AveragingSchedule {
+  fixingTimes: number[];  // Remaining fixing times in years, ascending, the last at expiry
+  fixedCount: number;     // Number of observations that have already fixed
+  fixedAverage: number;   // Average of the observations that have already fixed
+  missingCount: number;   // Fixings already past, at the requested frequency, with no fixed observation
+}
+
+// Most fixings in a schedule, the same as the Monte Carlo engine's step limit,
+// so every engine stays responsive whatever the window and frequency
+export const MAX_FIXINGS = 1000;
+
+// Build the remaining fixing dates of an averaging window that ends at expiry
+export function buildAveragingSchedule(
+  timeToExpiry: number,    // Time to expiry in years
+  averagingWindow: number, // Length of the averaging period in years, ending at expiry
+  fixingInterval: number,  // Time between fixings in years
+  fixedCount = 0,          // Number of observations that have already fixed
+  fixedAverage = 0         // Average of the observations that have already fixed
+): AveragingSchedule {
+  if (timeToExpiry <= 0 || averagingWindow <= 0 || fixingInterval <= 0) {
+    return { fixingTimes: [], fixedCount: 0, fixedAverage: 0, missingCount: 0 };
+  }
+
+  // Long windows with frequent fixings are thinned to evenly spaced fixings; the
+  // fixed observations keep their share of the average
+  const requestedFixings = Math.max(1, Math.round(averagingWindow / fixingInterval));
+  const totalFixings = Math.min(MAX_FIXINGS, requestedFixings);
+  const isThinned = totalFixings < requestedFixings;
+  const spacing = isThinned ? averagingWindow / totalFixings : fixingInterval;
+  const requestedFixed = Math.max(0, Math.floor(fixedCount));
+  const fixed = Math.min(
+    isThinned ? Math.round(requestedFixed * totalFixings / requestedFixings) : requestedFixed,
+    totalFixings
+  );
+
+  // Count back from expiry. Fixings that would fall in the past have happened, so
+  // without a fixed observation for them the average is missing those prices.
+  const fixingTimes: number[] = [];
+  for (let k = 0; k < totalFixings - fixed; k++) {
+    const time = timeToExpiry - k * spacing;
+    if (time <= 0) {
+      break;
+    }
+    fixingTimes.unshift(time);
+  }
+  const missing = totalFixings - fixed - fixingTimes.length;
+
+  return {
+    fixingTimes,
+    fixedCount: fixed,
+    fixedAverage: fixed > 0 ? fixedAverage : 0,
+    missingCount: isThinned ? Math.round(missing * requestedFixings / totalFixings) : missing
+  };
+}
+
+// Risk-neutral expected value of the average, including the fixed observations
+export function calculateExpectedAverage(
+  spotPrice: number,     // Current price of the underlying asset
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  schedule: AveragingSchedule,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  const totalCount = schedule.fixedCount + schedule.fixingTimes.length;
+  if (totalCount === 0) {
+    return 0;
+  }
+  const futureSum = schedule.fixingTimes.reduce(
+    (sum, time) => sum + spotPrice * Math.exp((riskFreeRate - dividendYield) * time),
+    0
+  );
+  return (schedule.fixedCount * schedule.fixedAverage + futureSum) / totalCount;
+}
+
+// Black formula on a lognormal forward with total standard deviation stdDev
+function blackOnForward(forward: number, strike: number, stdDev: number, discount: number, isCall: boolean): number {
+  if (strike <= 0) {
+    // The option is certain to finish in the money
+    return isCall ? discount * (forward - strike) : 0;
+  }
+  if (stdDev < 1e-12) {
+    return discount * Math.max(0, isCall ? forward - strike : strike - forward);
+  }
+  const d1 = (Math.log(forward / strike) + 0.5 * stdDev * stdDev) / stdDev;
+  const d2 = d1 - stdDev;
+  return isCall
+    ? discount * (forward * normalCDF(d1) - strike * normalCDF(d2))
+    : discount * (strike * normalCDF(-d2) - forward * normalCDF(-d1));
+}
+
+// Margrabe exchange formula between two jointly lognormal forwards
+function exchangeOnForwards(
+  forwardReceived: number,
+  forwardDelivered: number,
+  stdDev: number,
+  discount: number
+): number {
+  if (stdDev < 1e-12) {
+    return discount * Math.max(0, forwardReceived - forwardDelivered);
+  }
+  const d1 = (Math.log(forwardReceived / forwardDelivered) + 0.5 * stdDev * stdDev) / stdDev;
+  const d2 = d1 - stdDev;
+  return discount * (forwardReceived * normalCDF(d1) - forwardDelivered * normalCDF(d2));
+}
+
+// Exact closed form for a discretely sampled geometric-average option
+export function calculateGeometricAsianPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price (ignored for average-strike options)
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  averageType: AverageType,
+  schedule: AveragingSchedule,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  const future = schedule.fixingTimes;
+  const totalCount = schedule.fixedCount + future.length;
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || totalCount === 0) {
+    return 0;
+  }
+
+  const variance = volatility * volatility;
+  const drift = riskFreeRate - dividendYield - 0.5 * variance;
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+
+  // Moments of ln G, where G is the geometric average over every fixing
+  let meanLog = schedule.fixedCount > 0 ? schedule.fixedCount * Math.log(schedule.fixedAverage) : 0;
+  let sumOfTimes = 0;
+  let sumOfMinimums = 0;
+  future.forEach((time, i) => {
+    meanLog += Math.log(spotPrice) + drift * time;
+    sumOfTimes += time;
+    // Σ_i Σ_j min(t_i, t_j) for ascending times
+    sumOfMinimums += time * (1 + 2 * (future.length - 1 - i));
+  });
+  meanLog /= totalCount;
+  const varianceLog = variance * sumOfMinimums / (totalCount * totalCount);
+  const forwardAverage = Math.exp(meanLog + 0.5 * varianceLog);
+
+  if (averageType === "average-price") {
+    return blackOnForward(forwardAverage, strikePrice, Math.sqrt(varianceLog), discount, isCall);
+  }
+
+  // Average strike: exchange the final price against the average
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const covariance = variance * sumOfTimes / totalCount;
+  const exchangeStdDev = Math.sqrt(Math.max(0, variance * timeToExpiry + varianceLog - 2 * covariance));
+  return isCall
+    ? exchangeOnForwards(forwardPrice, forwardAverage, exchangeStdDev, discount)
+    : exchangeOnForwards(forwardAverage, forwardPrice, exchangeStdDev, discount);
+}
+
+// Turnbull-Wakeman / Levy approximation for a discretely sampled arithmetic-average
+// option: the average is replaced by a lognormal with the same first two moments
+export function calculateArithmeticAsianPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price (ignored for average-strike options)
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  averageType: AverageType,
+  schedule: AveragingSchedule,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  const future = schedule.fixingTimes;
+  const totalCount = schedule.fixedCount + future.length;
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || totalCount === 0) {
+    return 0;
+  }
+
+  const variance = volatility * volatility;
+  const carry = riskFreeRate - dividendYield;
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const fixedSum = schedule.fixedCount * schedule.fixedAverage;
+
+  // First two moments of the sum of the remaining fixings, in O(n) for ascending times:
+  // E[ΣS_i] = S Σ e^(b t_i), E[(ΣS_i)²] = S² Σ_i Σ_j e^(b(t_i + t_j) + σ² min(t_i, t_j))
+  let firstMoment = 0;
+  let secondMoment = 0;
+  let earlierTerms = 0;
+  let crossWithFinal = 0;
+  for (const time of future) {
+    const forward = Math.exp(carry * time);
+    secondMoment += Math.exp((2 * carry + variance) * time) + 2 * forward * earlierTerms;
+    earlierTerms += Math.exp((carry + variance) * time);
+    firstMoment += forward;
+    // E[S_T * S_i] / S² = e^(bT + b t_i + σ² t_i)
+    crossWithFinal += Math.exp(carry * timeToExpiry + (carry + variance) * time);
+  }
+  firstMoment *= spotPrice;
+  secondMoment *= spotPrice * spotPrice;
+
+  // Moments of the full average, including the fixed observations
+  const mean = (fixedSum + firstMoment) / totalCount;
+  const meanSquare = (fixedSum * fixedSum + 2 * fixedSum * firstMoment + secondMoment) / (totalCount * totalCount);
+  const varianceLog = Math.max(0, Math.log(meanSquare / (mean * mean)));
+
+  if (averageType === "average-price") {
+    return blackOnForward(mean, strikePrice, Math.sqrt(varianceLog), discount, isCall);
+  }
+
+  // Average strike: exchange the final price against the moment-matched average
+  const forwardPrice = spotPrice * Math.exp(carry * timeToExpiry);
+  const crossMoment = (fixedSum * forwardPrice + spotPrice * spotPrice * crossWithFinal) / totalCount;
+  const covarianceLog = Math.log(crossMoment / (forwardPrice * mean));
+  const exchangeStdDev = Math.sqrt(Math.max(0, variance * timeToExpiry + varianceLog - 2 * covarianceLog));
+  return isCall
+    ? exchangeOnForwards(forwardPrice, mean, exchangeStdDev, discount)
+    : exchangeOnForwards(mean, forwardPrice, exchangeStdDev, discount);
+}
+
+// Calculate Greeks of an Asian option by finite differences on a closed form.
+// The schedule is rebuilt for each bumped expiry so theta moves the fixings too.
+export function calculateAsianGreeks(
+  pricer: typeof calculateGeometricAsianPremium,
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price (ignored for average-strike options)
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  averageType: AverageType,
+  scheduleFor: (timeToExpiry: number) => AveragingSchedule,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => pricer(spot, strikePrice, time, vol, rate, isCall, averageType, scheduleFor(time), dividendYield),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * Bachelier (Normal) Option Pricing Model
+ *
+ * This utility prices European options when the forward follows arithmetic
+ * Brownian motion with a normal (absolute) volatility, so prices and strikes may
+ * be zero or negative. That suits spreads, basis and funding rates. It also
+ * converts between normal volatility and Black (lognormal) volatility.
+ */
+
+import {
+  calculateGreeks,
+  calculateImpliedVolatility,
+  calculateOptionPremium,
+  normalCDF,
+  normalPDF
+} from "./blackScholes";
+
+const NORMAL_VOL_TOLERANCE = 1e-10;
+const NORMAL_VOL_MAX_ITERATIONS = 200;
+
+// Undiscounted Bachelier value of an option on the forward
+function bachelierForwardValue(
+  forwardPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  normalVolatility: number,
+  isCall: boolean
+): number {
+  const stdDev = normalVolatility * Math.sqrt(timeToExpiry);
+  if (stdDev <= 0) {
+    return Math.max(0, isCall ? forwardPrice - strikePrice : strikePrice - forwardPrice);
+  }
+  const d = (forwardPrice - strikePrice) / stdDev;
+  return isCall
+    ? (forwardPrice - strikePrice) * normalCDF(d) + stdDev * normalPDF(d)
+    : (strikePrice - forwardPrice) * normalCDF(-d) + stdDev * normalPDF(d);
+}
+
+// Calculate the price of a European option under the Bachelier model
+export function calculateBachelierPremium(
+  spotPrice: number,        // Current price of the underlying, may be zero or negative
+  strikePrice: number,      // Strike price of the option, may be zero or negative
+  timeToExpiry: number,     // Time to expiry in years
+  normalVolatility: number, // Annualized standard deviation of the price, in price units
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  dividendYield = 0         // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || normalVolatility <= 0) {
+    return 0;
+  }
+
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  return discount * bachelierForwardValue(forwardPrice, strikePrice, timeToExpiry, normalVolatility, isCall);
+}
+
+// Calculate option Greeks under the Bachelier model.
+// Vega is per one unit (one dollar) change in the normal volatility.
+export function calculateBachelierGreeks(
+  spotPrice: number,        // Current price of the underlying, may be zero or negative
+  strikePrice: number,      // Strike price of the option, may be zero or negative
+  timeToExpiry: number,     // Time to expiry in years
+  normalVolatility: number, // Annualized standard deviation of the price, in price units
+  riskFreeRate: number,     // Risk-free interest rate as a decimal
+  isCall: boolean,          // true for call option, false for put option
+  dividendYield = 0         // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || normalVolatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const growth = Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const forwardPrice = spotPrice * growth;
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const stdDev = normalVolatility * sqrtT;
+  const d = (forwardPrice - strikePrice) / stdDev;
+  const value = bachelierForwardValue(forwardPrice, strikePrice, timeToExpiry, normalVolatility, isCall);
+
+  // Sensitivity of the undiscounted value to the forward
+  const forwardDelta = isCall ? normalCDF(d) : -normalCDF(-d);
+
+  const delta = discount * growth * forwardDelta;
+  const gamma = discount * growth * growth * normalPDF(d) / stdDev;
+
+  // dV/dT = -rV + D (forwardDelta F (r - q) + σ n(d) / (2√T)), theta per day
+  const dValuedT = -riskFreeRate * discount * value +
+    discount * (forwardDelta * forwardPrice * (riskFreeRate - dividendYield) + normalVolatility * normalPDF(d) / (2 * sqrtT));
+  const theta = -dValuedT / 365;
+
+  const vega = discount * sqrtT * normalPDF(d);
+
+  // Rate moves both the forward and the discounting: -T V + D forwardDelta F T, per 1%
+  const rho = (-timeToExpiry * discount * value + discount * forwardDelta * forwardPrice * timeToExpiry) * 0.01;
+
+  return {
+    delta,
+    gamma,
+    theta,
+    vega,
+    rho
+  };
+}
+
+// Convert a normal volatility to the Black (lognormal) volatility that gives the same
+// price for this forward, strike and expiry. Needs a positive forward and strike;
+// throws ImpliedVolatilityError if no lognormal volatility matches.
+export function convertNormalToLognormalVolatility(
+  normalVolatility: number, // Normal volatility in price units
+  forwardPrice: number,     // Forward price for the option's expiry
+  strikePrice: number,      // Strike price of the option
+  timeToExpiry: number      // Time to expiry in years
+): number {
+  if (forwardPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || normalVolatility <= 0) {
+    return 0;
+  }
+
+  // Use the out-of-the-money side, whose price is all time value
+  const isCall = strikePrice >= forwardPrice;
+  const price = bachelierForwardValue(forwardPrice, strikePrice, timeToExpiry, normalVolatility, isCall);
+  return calculateImpliedVolatility(price, forwardPrice, strikePrice, timeToExpiry, 0, isCall);
+}
+
+// Convert a Black (lognormal) volatility to the normal volatility that gives the same
+// price for this forward, strike and expiry
+export function convertLognormalToNormalVolatility(
+  lognormalVolatility: number, // Black volatility as a decimal
+  forwardPrice: number,        // Forward price for the option's expiry
+  strikePrice: number,         // Strike price of the option
+  timeToExpiry: number         // Time to expiry in years
+): number {
+  if (forwardPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || lognormalVolatility <= 0) {
+    return 0;
+  }
+
+  const isCall = strikePrice >= forwardPrice;
+  const target = calculateOptionPremium(forwardPrice, strikePrice, timeToExpiry, lognormalVolatility, 0, isCall);
+
+  // The Bachelier price rises monotonically with the normal volatility, so bisect
+  let low = 0;
+  let high = lognormalVolatility * Math.max(forwardPrice, strikePrice);
+  while (bachelierForwardValue(forwardPrice, strikePrice, timeToExpiry, high, isCall) < target) {
+    high *= 2;
+  }
+  for (let i = 0; i < NORMAL_VOL_MAX_ITERATIONS && high - low > NORMAL_VOL_TOLERANCE * high; i++) {
+    const middle = (low + high) / 2;
+    if (bachelierForwardValue(forwardPrice, strikePrice, timeToExpiry, middle, isCall) < target) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
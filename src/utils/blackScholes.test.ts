@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { abramowitzStegunNormalCDF, calculateOptionPremium, codyNormalCDF } from "./blackScholes";
+
+// Φ(x) from high-precision tables, rounded to double precision
+const LOWER_TAIL: [number, number][] = [
+  [-10, 7.619853024160525e-24],
+  [-8, 6.220960574271784e-16],
+  [-5, 2.866515718791939e-7],
+  [-3, 1.3498980316300946e-3],
+  [-1.96, 2.499789514822045e-2],
+  [-1, 0.15865525393145705],
+  [0, 0.5]
+];
+
+// 1 - Φ(x) for the upper tail equals Φ(-x)
+const UPPER_TAIL = LOWER_TAIL.map(([x, value]) => [-x, 1 - value] as [number, number]);
+
+describe("codyNormalCDF", () => {
+  it.each(LOWER_TAIL)("matches Φ(%s) to 1e-13 relative in the lower tail", (x, expected) => {
+    expect(Math.abs(codyNormalCDF(x) - expected) / expected).toBeLessThan(1e-13);
+  });
+
+  it.each(UPPER_TAIL)("matches Φ(%s) to double precision in the upper tail", (x, expected) => {
+    expect(codyNormalCDF(x)).toBeCloseTo(expected, 15);
+  });
+
+  it("keeps Φ(x) + Φ(-x) = 1 out to ±10σ", () => {
+    for (let x = 0; x <= 10; x += 0.25) {
+      expect(Math.abs(codyNormalCDF(x) + codyNormalCDF(-x) - 1)).toBeLessThan(1e-15);
+    }
+  });
+});
+
+describe("abramowitzStegunNormalCDF", () => {
+  // Formula 7.1.26 bounds the erf error by 1.5e-7, so Φ is within 7.5e-8
+  it.each([...LOWER_TAIL, ...UPPER_TAIL])("is within 7.5e-8 of Φ(%s)", (x, expected) => {
+    expect(Math.abs(abramowitzStegunNormalCDF(x) - expected)).toBeLessThan(7.5e-8);
+  });
+
+  it("stays inside [0, 1] at ±10σ", () => {
+    expect(abramowitzStegunNormalCDF(-10)).toBeGreaterThanOrEqual(0);
+    expect(abramowitzStegunNormalCDF(10)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("calculateOptionPremium", () => {
+  // Hull, Options, Futures and Other Derivatives, Example 15.6
+  it("prices Hull's example call and put", () => {
+    expect(calculateOptionPremium(42, 40, 0.5, 0.2, 0.1, true)).toBeCloseTo(4.7594, 4);
+    expect(calculateOptionPremium(42, 40, 0.5, 0.2, 0.1, false)).toBeCloseTo(0.8086, 4);
+  });
+
+  // Haug, The Complete Guide to Option Pricing Formulas, sections 1.1.1 and 1.1.6
+  it("prices Haug's Black-Scholes and dividend-yield examples", () => {
+    expect(calculateOptionPremium(60, 65, 0.25, 0.3, 0.08, true)).toBeCloseTo(2.1334, 4);
+    expect(calculateOptionPremium(100, 95, 0.5, 0.2, 0.1, false, 0.05)).toBeCloseTo(2.4648, 4);
+  });
+
+  it("satisfies put-call parity with a carry yield", () => {
+    const spot = 100, strike = 110, time = 0.75, rate = 0.04, yieldRate = 0.02;
+    const call = calculateOptionPremium(spot, strike, time, 0.35, rate, true, yieldRate);
+    const put = calculateOptionPremium(spot, strike, time, 0.35, rate, false, yieldRate);
+    expect(call - put).toBeCloseTo(spot * Math.exp(-yieldRate * time) - strike * Math.exp(-rate * time), 12);
+  });
+
+  it("prices with the legacy CDF only when asked", () => {
+    const cody = calculateOptionPremium(42, 40, 0.5, 0.2, 0.1, true);
+    const legacy = calculateOptionPremium(42, 40, 0.5, 0.2, 0.1, true, 0, "abramowitz-stegun");
+    expect(calculateOptionPremium(42, 40, 0.5, 0.2, 0.1, true, 0, "cody")).toBe(cody);
+    expect(legacy).not.toBe(cody);
+    expect(Math.abs(legacy - cody)).toBeLessThan(1e-5);
+  });
+
+  it("returns 0 for invalid inputs", () => {
+    expect(calculateOptionPremium(100, 100, 0, 0.2, 0.05, true)).toBe(0);
+    expect(calculateOptionPremium(100, 100, 1, 0, 0.05, true)).toBe(0);
+  });
+});
@@ -6,8 +6,80 @@
  * using the Black-Scholes-Merton model.
  */
 
-// Standard normal cumulative distribution function
+// Implementations of the standard normal CDF: Cody's double-precision rational
+// approximation, or the legacy Abramowitz-Stegun 7.1.26 approximation (~1e-7 error)
+export type NormalCDFMethod = "cody" | "abramowitz-stegun";
+
+// Standard normal cumulative distribution function, used by every pricing function
 export function normalCDF(x: number): number {
+  return codyNormalCDF(x);
+}
+
+// Coefficients of Cody's (1969, 1993) rational Chebyshev approximations
+const CODY_A = [2.2352520354606837, 161.02823106855587, 1067.6894854603709, 18154.98125334356, 0.06568233791820745];
+const CODY_B = [47.202581904688245, 976.0985517377767, 10260.932208618979, 45507.78933502673];
+const CODY_C = [
+  0.39894151208813466, 8.883149794388377, 93.50665613217785, 597.2702763948002,
+  2494.5375852903726, 6848.190450536283, 11602.65143764735, 9842.714838383978,
+  1.0765576773720192e-8
+];
+const CODY_D = [
+  22.266688044328117, 235.387901782625, 1519.3775994075547, 6485.558298266761,
+  18615.571640885097, 34900.95272114598, 38912.00328609327, 19685.429676859992
+];
+const CODY_P = [0.215898534057957, 0.12740116116024736, 0.022235277870649807, 0.0014216191932278934, 2.9112874951168793e-5, 0.023073441764940174];
+const CODY_Q = [1.284260096144911, 0.4682382124808651, 0.06598813786892856, 0.0037823963320275824, 7.297515550839662e-5];
+
+// Double-precision normal CDF (Cody's algorithm, as used by R's pnorm). Keeps close to
+// full relative accuracy in both tails until the result underflows near -38 sigma.
+export function codyNormalCDF(x: number): number {
+  const y = Math.abs(x);
+
+  if (y <= 0.67448975) {
+    // Central region: Φ(x) = ½ + x R(x²)
+    const xsq = y > 1e-16 ? x * x : 0;
+    let numerator = CODY_A[4] * xsq;
+    let denominator = xsq;
+    for (let i = 0; i < 3; i++) {
+      numerator = (numerator + CODY_A[i]) * xsq;
+      denominator = (denominator + CODY_B[i]) * xsq;
+    }
+    return 0.5 + x * (numerator + CODY_A[3]) / (denominator + CODY_B[3]);
+  }
+
+  let ratio: number;
+  if (y <= Math.sqrt(32)) {
+    // Intermediate region: the tail is e^(-y²/2) times a rational function of y
+    let numerator = CODY_C[8] * y;
+    let denominator = y;
+    for (let i = 0; i < 7; i++) {
+      numerator = (numerator + CODY_C[i]) * y;
+      denominator = (denominator + CODY_D[i]) * y;
+    }
+    ratio = (numerator + CODY_C[7]) / (denominator + CODY_D[7]);
+  } else {
+    // Far tail: asymptotic expansion in 1 / y²
+    const inverseSquare = 1 / (y * y);
+    let numerator = CODY_P[5] * inverseSquare;
+    let denominator = inverseSquare;
+    for (let i = 0; i < 4; i++) {
+      numerator = (numerator + CODY_P[i]) * inverseSquare;
+      denominator = (denominator + CODY_Q[i]) * inverseSquare;
+    }
+    const correction = inverseSquare * (numerator + CODY_P[4]) / (denominator + CODY_Q[4]);
+    ratio = (1 / Math.sqrt(2 * Math.PI) - correction) / y;
+  }
+
+  // Split y² so the exponential loses no precision
+  const rounded = Math.trunc(y * 16) / 16;
+  const remainder = (y - rounded) * (y + rounded);
+  const tail = Math.exp(-rounded * rounded / 2) * Math.exp(-remainder / 2) * ratio;
+
+  return x > 0 ? 1 - tail : tail;
+}
+
+// Legacy normal CDF from the Abramowitz-Stegun erf approximation (absolute error ~1e-7)
+export function abramowitzStegunNormalCDF(x: number): number {
   const a1 = 0.254829592;
   const a2 = -0.284496736;
   const a3 = 1.421413741;
@@ -29,6 +101,89 @@ export function normalPDF(x: number): number {
   return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 }
 
+// Gauss-Legendre abscissae and weights for the bivariate normal integral
+const GL_POINTS = [
+  { x: [0.9324695142031522, 0.6612093864662647, 0.2386191860831970],
+    w: [0.1713244923791705, 0.3607615730481384, 0.4679139345726904] },
+  { x: [0.9815606342467191, 0.9041172563704750, 0.7699026741943050, 0.5873179542866171, 0.3678314989981802, 0.1252334085114692],
+    w: [0.04717533638651177, 0.1069393259953183, 0.1600783285433464, 0.2031674267230659, 0.2334925365383547, 0.2491470458134029] },
+  { x: [0.9931285991850949, 0.9639719272779138, 0.9122344282513259, 0.8391169718222188, 0.7463319064601508,
+        0.6360536807265150, 0.5108670019508271, 0.3737060887154196, 0.2277858511416451, 0.0765265211334973],
+    w: [0.01761400713915212, 0.04060142980038694, 0.0626720483341091, 0.08327674157670475, 0.1019301198172404,
+        0.1181945319615184, 0.1316886384491766, 0.1420961093183821, 0.1491729864726037, 0.1527533871307259] }
+];
+
+// Bivariate standard normal cumulative distribution function P(X <= x, Y <= y)
+// with correlation rho, using Genz's (2004) algorithm
+export function bivariateNormalCDF(x: number, y: number, rho: number): number {
+  const { x: nodes, w: weights } = Math.abs(rho) < 0.3 ? GL_POINTS[0] : Math.abs(rho) < 0.75 ? GL_POINTS[1] : GL_POINTS[2];
+
+  const h = -x;
+  let k = -y;
+  let hk = h * k;
+  let bvn = 0;
+
+  if (Math.abs(rho) < 0.925) {
+    if (Math.abs(rho) > 0) {
+      const hs = (h * h + k * k) / 2;
+      const asr = Math.asin(rho);
+      for (let i = 0; i < nodes.length; i++) {
+        for (const sign of [-1, 1]) {
+          const sn = Math.sin(asr * (sign * nodes[i] + 1) / 2);
+          bvn += weights[i] * Math.exp((sn * hk - hs) / (1 - sn * sn));
+        }
+      }
+      bvn = bvn * asr / (4 * Math.PI);
+    }
+    return bvn + normalCDF(-h) * normalCDF(-k);
+  }
+
+  if (rho < 0) {
+    k = -k;
+    hk = -hk;
+  }
+
+  if (Math.abs(rho) < 1) {
+    const as = (1 - rho) * (1 + rho);
+    let a = Math.sqrt(as);
+    const bs = (h - k) * (h - k);
+    const c = (4 - hk) / 8;
+    const d = (12 - hk) / 16;
+    let asr = -(bs / as + hk) / 2;
+
+    if (asr > -100) {
+      bvn = a * Math.exp(asr) * (1 - c * (bs - as) * (1 - d * bs / 5) / 3 + c * d * as * as / 5);
+    }
+    if (-hk < 100) {
+      const b = Math.sqrt(bs);
+      bvn -= Math.exp(-hk / 2) * Math.sqrt(2 * Math.PI) * normalCDF(-b / a) * b * (1 - c * bs * (1 - d * bs / 5) / 3);
+    }
+
+    a = a / 2;
+    for (let i = 0; i < nodes.length; i++) {
+      for (const sign of [-1, 1]) {
+        const xs = Math.pow(a * (sign * nodes[i] + 1), 2);
+        const rs = Math.sqrt(1 - xs);
+        asr = -(bs / xs + hk) / 2;
+        if (asr > -100) {
+          bvn += a * weights[i] * Math.exp(asr) * (Math.exp(-hk * (1 - rs) / (2 * (1 + rs))) / rs - (1 + c * xs * (1 + d * xs)));
+        }
+      }
+    }
+    bvn = -bvn / (2 * Math.PI);
+  }
+
+  if (rho > 0) {
+    return bvn + normalCDF(-Math.max(h, k));
+  }
+
+  bvn = -bvn;
+  if (k > h) {
+    bvn += h < 0 ? normalCDF(k) - normalCDF(h) : normalCDF(-h) - normalCDF(-k);
+  }
+  return bvn;
+}
+
 // Black-Scholes-Merton formula for European options
 export function calculateOptionPremium(
   spotPrice: number,     // Current price of the underlying asset
@@ -36,26 +191,316 @@ export function calculateOptionPremium(
   timeToExpiry: number,  // Time to expiry in years
   volatility: number,    // Implied volatility as a decimal (e.g., 0.2 for 20%)
   riskFreeRate: number,  // Risk-free interest rate as a decimal
-  isCall: boolean        // true for call option, false for put option
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  normalCDFMethod: NormalCDFMethod = "cody"  // CDF to price with, e.g. to compare against the legacy one
 ): number {
   // Check for invalid inputs
   if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
     return 0;
   }
 
+  const cdf = normalCDFMethod === "abramowitz-stegun" ? abramowitzStegunNormalCDF : normalCDF;
+
   // Calculate d1 and d2 parameters
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
             (volatility * Math.sqrt(timeToExpiry));
   const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
 
   // Calculate option premium
   if (isCall) {
-    // Call option: C = S * N(d1) - K * e^(-rt) * N(d2)
-    return spotPrice * normalCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d2);
+    // Call option: C = S * e^(-qt) * N(d1) - K * e^(-rt) * N(d2)
+    return spotPrice * carryDiscount * cdf(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * cdf(d2);
   } else {
-    // Put option: P = K * e^(-rt) * N(-d2) - S * N(-d1)
-    return strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) - spotPrice * normalCDF(-d1);
+    // Put option: P = K * e^(-rt) * N(-d2) - S * e^(-qt) * N(-d1)
+    return strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * cdf(-d2) - spotPrice * carryDiscount * cdf(-d1);
+  }
+}
+
+// Reasons the implied volatility solver can fail
+export type ImpliedVolatilityFailure =
+  | "invalid-input"      // Non-positive price, strike, time or premium
+  | "below-intrinsic"    // Premium is below the no-arbitrage lower bound
+  | "above-upper-bound"  // Premium is above the no-arbitrage upper bound
+  | "no-convergence";    // Solver did not reach the tolerance
+
+export class ImpliedVolatilityError extends Error {
+  reason: ImpliedVolatilityFailure;
+
+  constructor(reason: ImpliedVolatilityFailure, message: string) {
+    super(message);
+    this.name = "ImpliedVolatilityError";
+    this.reason = reason;
+  }
+}
+
+const IV_MIN = 1e-6;      // Lowest volatility the solver will search
+const IV_MAX = 10;        // Highest volatility the solver will search (1000%)
+const IV_TOLERANCE = 1e-8;
+const IV_MAX_ITERATIONS = 200;
+
+// Solve for the volatility that reproduces a quoted premium.
+// Uses Newton-Raphson on vega, falling back to bisection whenever a Newton step
+// leaves the bracket or vega is too small (deep ITM/OTM options).
+export function calculateImpliedVolatility(
+  marketPremium: number, // Quoted option premium
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || marketPremium <= 0) {
+    throw new ImpliedVolatilityError("invalid-input", "Price, strike, time to expiry and premium must be positive");
+  }
+
+  // No-arbitrage bounds for a European option
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const discountedSpot = spotPrice * Math.exp(-dividendYield * timeToExpiry);
+  const lowerBound = isCall
+    ? Math.max(0, discountedSpot - discountedStrike)
+    : Math.max(0, discountedStrike - discountedSpot);
+  const upperBound = isCall ? discountedSpot : discountedStrike;
+
+  if (marketPremium <= lowerBound) {
+    throw new ImpliedVolatilityError(
+      "below-intrinsic",
+      `Premium must exceed the intrinsic value of ${lowerBound.toFixed(4)}`
+    );
+  }
+  if (marketPremium >= upperBound) {
+    throw new ImpliedVolatilityError(
+      "above-upper-bound",
+      `Premium must be below the no-arbitrage limit of ${upperBound.toFixed(4)}`
+    );
+  }
+
+  const priceAt = (vol: number) =>
+    calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, vol, riskFreeRate, isCall, dividendYield) - marketPremium;
+
+  let low = IV_MIN;
+  let high = IV_MAX;
+  if (priceAt(low) > 0 || priceAt(high) < 0) {
+    throw new ImpliedVolatilityError(
+      "no-convergence",
+      "Premium implies a volatility outside the 0% - 1000% search range"
+    );
+  }
+
+  // Brenner-Subrahmanyam approximation as the starting point
+  let vol = Math.sqrt((2 * Math.PI) / timeToExpiry) * (marketPremium / discountedSpot);
+  if (!(vol > low && vol < high)) {
+    vol = 0.5;
+  }
+
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const diff = priceAt(vol);
+    if (Math.abs(diff) < IV_TOLERANCE) {
+      return vol;
+    }
+
+    // Shrink the bracket around the root
+    if (diff > 0) {
+      high = vol;
+    } else {
+      low = vol;
+    }
+
+    const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * vol * vol) * timeToExpiry) /
+              (vol * Math.sqrt(timeToExpiry));
+    const vega = discountedSpot * normalPDF(d1) * Math.sqrt(timeToExpiry);
+    const newtonStep = vega > 1e-12 ? vol - diff / vega : NaN;
+
+    vol = newtonStep > low && newtonStep < high ? newtonStep : 0.5 * (low + high);
+
+    if (high - low < IV_TOLERANCE) {
+      return vol;
+    }
+  }
+
+  throw new ImpliedVolatilityError(
+    "no-convergence",
+    `Implied volatility did not converge after ${IV_MAX_ITERATIONS} iterations`
+  );
+}
+
+// Delta conventions used to quote strikes by delta. Spot deltas include the e^(-qT)
+// carry discount, forward deltas do not; premium-adjusted deltas subtract the
+// premium paid in the underlying, as in FX markets quoted in the foreign currency.
+export type DeltaConvention = "spot" | "forward" | "spot-premium-adjusted" | "forward-premium-adjusted";
+
+// Reasons the strike solvers can fail
+export type StrikeSolverFailure =
+  | "invalid-input"  // Non-positive price, time, volatility or target
+  | "out-of-range"   // No strike reaches the target delta or premium
+  | "no-convergence"; // Solver did not reach the tolerance
+
+export class StrikeSolverError extends Error {
+  reason: StrikeSolverFailure;
+
+  constructor(reason: StrikeSolverFailure, message: string) {
+    super(message);
+    this.name = "StrikeSolverError";
+    this.reason = reason;
+  }
+}
+
+// Strike search range in standard deviations of the log price either side of the forward
+const STRIKE_SEARCH_WIDTH = 12;
+const STRIKE_TOLERANCE = 1e-12;
+const STRIKE_MAX_ITERATIONS = 200;
+
+// Signed delta of a European option under a quoting convention
+export function calculateDeltaForConvention(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  convention: DeltaConvention,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const d1 = Math.log(forwardPrice / strikePrice) / volSqrtT + 0.5 * volSqrtT;
+  const d2 = d1 - volSqrtT;
+  const carryDiscount = convention.startsWith("spot") ? Math.exp(-dividendYield * timeToExpiry) : 1;
+  const phi = isCall ? 1 : -1;
+
+  // Premium-adjusted: Δ - V / S, which reduces to (K / F) N(φ d2)
+  return convention.endsWith("premium-adjusted")
+    ? phi * carryDiscount * strikePrice / forwardPrice * normalCDF(phi * d2)
+    : phi * carryDiscount * normalCDF(phi * d1);
+}
+
+// Bisect a monotone function of the log-moneyness ln(K / F) for its root
+function bisectLogMoneyness(f: (moneyness: number) => number, low: number, high: number): number {
+  const lowSign = Math.sign(f(low));
+  for (let i = 0; i < STRIKE_MAX_ITERATIONS; i++) {
+    const middle = 0.5 * (low + high);
+    if (high - low < STRIKE_TOLERANCE) {
+      return middle;
+    }
+    if (Math.sign(f(middle)) === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  throw new StrikeSolverError(
+    "no-convergence",
+    `Strike did not converge after ${STRIKE_MAX_ITERATIONS} iterations`
+  );
+}
+
+// Solve for the strike with a given delta, e.g. 0.25 for a 25-delta call or put.
+// Premium-adjusted call deltas peak below the forward; the strike above the peak is
+// returned, as is the market convention.
+export function calculateStrikeFromDelta(
+  targetDelta: number,   // Absolute delta to match, between 0 and 1
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  convention: DeltaConvention,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || targetDelta <= 0) {
+    throw new StrikeSolverError("invalid-input", "Price, time to expiry, volatility and delta must be positive");
+  }
+
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const deltaAt = (moneyness: number) => Math.abs(calculateDeltaForConvention(
+    spotPrice, forwardPrice * Math.exp(moneyness), timeToExpiry, volatility, riskFreeRate, isCall, convention, dividendYield
+  ));
+
+  let low = -STRIKE_SEARCH_WIDTH * volSqrtT;
+  const high = STRIKE_SEARCH_WIDTH * volSqrtT;
+
+  // Premium-adjusted call deltas rise then fall; search only above the peak
+  if (isCall && convention.endsWith("premium-adjusted")) {
+    let left = low;
+    let right = 0;
+    const goldenRatio = (Math.sqrt(5) - 1) / 2;
+    for (let i = 0; i < STRIKE_MAX_ITERATIONS && right - left > STRIKE_TOLERANCE; i++) {
+      const inner = right - goldenRatio * (right - left);
+      const outer = left + goldenRatio * (right - left);
+      if (deltaAt(inner) < deltaAt(outer)) {
+        left = inner;
+      } else {
+        right = outer;
+      }
+    }
+    low = 0.5 * (left + right);
+  }
+
+  const lowDelta = deltaAt(low);
+  const highDelta = deltaAt(high);
+  if (targetDelta > Math.max(lowDelta, highDelta) || targetDelta < Math.min(lowDelta, highDelta)) {
+    throw new StrikeSolverError(
+      "out-of-range",
+      `Delta must be between ${Math.min(lowDelta, highDelta).toFixed(4)} and ${Math.max(lowDelta, highDelta).toFixed(4)}`
+    );
+  }
+
+  return forwardPrice * Math.exp(bisectLogMoneyness((moneyness) => deltaAt(moneyness) - targetDelta, low, high));
+}
+
+// Solve for the strike whose Black-Scholes premium equals a target premium
+export function calculateStrikeFromPremium(
+  targetPremium: number, // Premium to match
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || targetPremium <= 0) {
+    throw new StrikeSolverError("invalid-input", "Price, time to expiry, volatility and premium must be positive");
+  }
+
+  // A call is worth less than the discounted spot at any strike; puts have no upper bound
+  const discountedSpot = spotPrice * Math.exp(-dividendYield * timeToExpiry);
+  if (isCall && targetPremium >= discountedSpot) {
+    throw new StrikeSolverError(
+      "out-of-range",
+      `Call premium must be below the discounted price of ${discountedSpot.toFixed(4)}`
+    );
+  }
+
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const premiumGap = (moneyness: number) => calculateOptionPremium(
+    spotPrice, forwardPrice * Math.exp(moneyness), timeToExpiry, volatility, riskFreeRate, isCall, dividendYield
+  ) - targetPremium;
+
+  // Widen the search until the premium is bracketed: calls fall and puts rise with the strike
+  let low = -STRIKE_SEARCH_WIDTH * volSqrtT;
+  let high = STRIKE_SEARCH_WIDTH * volSqrtT;
+  for (let i = 0; i < STRIKE_MAX_ITERATIONS && (isCall ? premiumGap(low) < 0 : premiumGap(high) < 0); i++) {
+    if (isCall) {
+      low -= 1;
+    } else {
+      high += 1;
+    }
   }
+  if (Math.sign(premiumGap(low)) === Math.sign(premiumGap(high))) {
+    throw new StrikeSolverError("out-of-range", "No strike gives the target premium");
+  }
+
+  return forwardPrice * Math.exp(bisectLogMoneyness(premiumGap, low, high));
 }
 
 // Calculate all option Greeks
@@ -65,7 +510,8 @@ export function calculateGreeks(
   timeToExpiry: number,  // Time to expiry in years
   volatility: number,    // Implied volatility as a decimal
   riskFreeRate: number,  // Risk-free interest rate as a decimal
-  isCall: boolean        // true for call option, false for put option
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
 ): {
   delta: number;  // Change in option price / Change in underlying price
   gamma: number;  // Rate of change of delta with respect to underlying price
@@ -79,38 +525,40 @@ export function calculateGreeks(
   }
 
   // Calculate d1 and d2 parameters
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
             (volatility * Math.sqrt(timeToExpiry));
   const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
   
   // Calculate Greeks
   let delta: number;
   
   if (isCall) {
-    // Delta for call option: N(d1)
-    delta = normalCDF(d1);
+    // Delta for call option: e^(-qt) * N(d1)
+    delta = carryDiscount * normalCDF(d1);
   } else {
-    // Delta for put option: N(d1) - 1
-    delta = normalCDF(d1) - 1;
+    // Delta for put option: e^(-qt) * (N(d1) - 1)
+    delta = carryDiscount * (normalCDF(d1) - 1);
   }
   
-  // Gamma (same for both call and put): N'(d1) / (S * σ * √t)
-  const gamma = normalPDF(d1) / (spotPrice * volatility * Math.sqrt(timeToExpiry));
+  // Gamma (same for both call and put): e^(-qt) * N'(d1) / (S * σ * √t)
+  const gamma = carryDiscount * normalPDF(d1) / (spotPrice * volatility * Math.sqrt(timeToExpiry));
   
-  // Vega (same for both call and put): S * N'(d1) * √t * 0.01
-  const vega = spotPrice * normalPDF(d1) * Math.sqrt(timeToExpiry) * 0.01;
+  // Vega (same for both call and put): S * e^(-qt) * N'(d1) * √t * 0.01
+  const vega = spotPrice * carryDiscount * normalPDF(d1) * Math.sqrt(timeToExpiry) * 0.01;
   
   // Theta calculation (different for call and put)
-  const term1 = -(spotPrice * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
+  const term1 = -(spotPrice * carryDiscount * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
   const term2 = riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const term3 = dividendYield * spotPrice * carryDiscount;
   
   let theta: number;
   if (isCall) {
-    // Theta for call (daily): -S * σ * N'(d1) / (2 * √t) - r * K * e^(-rt) * N(d2)
-    theta = (term1 - term2 * normalCDF(d2)) / 365;
+    // Theta for call (daily): -S * e^(-qt) * σ * N'(d1) / (2 * √t) - r * K * e^(-rt) * N(d2) + q * S * e^(-qt) * N(d1)
+    theta = (term1 - term2 * normalCDF(d2) + term3 * normalCDF(d1)) / 365;
   } else {
-    // Theta for put (daily): -S * σ * N'(d1) / (2 * √t) + r * K * e^(-rt) * N(-d2)
-    theta = (term1 + term2 * normalCDF(-d2)) / 365;
+    // Theta for put (daily): -S * e^(-qt) * σ * N'(d1) / (2 * √t) + r * K * e^(-rt) * N(-d2) - q * S * e^(-qt) * N(-d1)
+    theta = (term1 + term2 * normalCDF(-d2) - term3 * normalCDF(-d1)) / 365;
   }
   
   // Rho calculation (different for call and put) - per 1% change
@@ -132,6 +580,784 @@ export function calculateGreeks(
   };
 }
 
+// Calculate second- and third-order option Greeks
+export function calculateAdvancedGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): {
+  vanna: number;      // Change in delta per 1% change in volatility
+  volga: number;      // Change in vega per 1% change in volatility (vomma)
+  charm: number;      // Change in delta as time passes (daily)
+  speed: number;      // Change in gamma when the underlying price changes by $1
+  zomma: number;      // Change in gamma per 1% change in volatility
+  color: number;      // Change in gamma as time passes (daily)
+  veta: number;       // Change in vega as time passes (daily)
+  dualDelta: number;  // Change in option price when the strike changes by $1
+} {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { vanna: 0, volga: 0, charm: 0, speed: 0, zomma: 0, color: 0, veta: 0, dualDelta: 0 };
+  }
+
+  // Calculate d1 and d2 parameters
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
+  const rateDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const pdf = normalPDF(d1);
+
+  const gamma = carryDiscount * pdf / (spotPrice * volatility * sqrtT);
+  const vega = spotPrice * carryDiscount * pdf * sqrtT;
+
+  // Vanna: -e^(-qt) * N'(d1) * d2 / σ
+  const vanna = -carryDiscount * pdf * d2 / volatility * 0.01;
+
+  // Volga: vega * d1 * d2 / σ, per 1% squared
+  const volga = vega * d1 * d2 / volatility * 0.0001;
+
+  // Charm (delta decay): shared term e^(-qt) * N'(d1) * (2(r - q)t - d2σ√t) / (2tσ√t)
+  const charmTerm = carryDiscount * pdf *
+    (2 * (riskFreeRate - dividendYield) * timeToExpiry - d2 * volatility * sqrtT) /
+    (2 * timeToExpiry * volatility * sqrtT);
+  const charm = (isCall
+    ? dividendYield * carryDiscount * normalCDF(d1) - charmTerm
+    : -dividendYield * carryDiscount * normalCDF(-d1) - charmTerm) / 365;
+
+  // Speed: -Γ / S * (d1 / (σ√t) + 1)
+  const speed = -gamma / spotPrice * (d1 / (volatility * sqrtT) + 1);
+
+  // Zomma: Γ * (d1 * d2 - 1) / σ
+  const zomma = gamma * (d1 * d2 - 1) / volatility * 0.01;
+
+  // Color (gamma decay): e^(-qt) * N'(d1) / (2St σ√t) * (2qt + 1 + (2(r - q)t - d2σ√t) / (σ√t) * d1)
+  const color = carryDiscount * pdf / (2 * spotPrice * timeToExpiry * volatility * sqrtT) *
+    (2 * dividendYield * timeToExpiry + 1 +
+      (2 * (riskFreeRate - dividendYield) * timeToExpiry - d2 * volatility * sqrtT) / (volatility * sqrtT) * d1) / 365;
+
+  // Veta (vega decay): S * e^(-qt) * N'(d1) * √t * (q + (r - q)d1 / (σ√t) - (1 + d1 * d2) / (2t))
+  const veta = vega *
+    (dividendYield + (riskFreeRate - dividendYield) * d1 / (volatility * sqrtT) - (1 + d1 * d2) / (2 * timeToExpiry)) *
+    0.01 / 365;
+
+  // Dual delta: -e^(-rt) * N(d2) for calls, e^(-rt) * N(-d2) for puts
+  const dualDelta = isCall ? -rateDiscount * normalCDF(d2) : rateDiscount * normalCDF(-d2);
+
+  return {
+    vanna,
+    volga,
+    charm,
+    speed,
+    zomma,
+    color,
+    veta,
+    dualDelta
+  };
+}
+
+// Black-76 formula for European options on futures / forwards.
+// The futures price already embeds the cost of carry, so it is priced as a
+// Black-Scholes-Merton option whose carry yield equals the risk-free rate.
+export function calculateBlack76Premium(
+  futuresPrice: number,  // Futures / forward price for the option's expiry
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean        // true for call option, false for put option
+): number {
+  return calculateOptionPremium(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, riskFreeRate);
+}
+
+// Black-76 Greeks, with delta and gamma taken with respect to the futures price
+export function calculateBlack76Greeks(
+  futuresPrice: number,  // Futures / forward price for the option's expiry
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean        // true for call option, false for put option
+): ReturnType<typeof calculateGreeks> {
+  const greeks = calculateGreeks(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, riskFreeRate);
+
+  // The futures price does not move with the rate, so only discounting is affected: -t * V * 0.01
+  const premium = calculateBlack76Premium(futuresPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall);
+  const rho = -timeToExpiry * premium * 0.01;
+
+  return { ...greeks, rho };
+}
+
+// Convert a USD premium to the coin-denominated premium of an inverse option.
+// Inverse (coin-margined) options such as Deribit's BTC and ETH contracts pay
+// max(0, S - K) / S coins, which is worth the linear USD payoff at expiry.
+export function toInversePremium(
+  premium: number,       // Premium in USD
+  underlyingPrice: number // Current price of the underlying in USD
+): number {
+  return underlyingPrice > 0 ? premium / underlyingPrice : 0;
+}
+
+// Convert USD Greeks to the coin-denominated Greeks of an inverse option.
+// Delta is reported as coin exposure (S * d(V/S)/dS), which subtracts the
+// premium held in coin: delta - V / S.
+export function calculateInverseGreeks(
+  greeks: ReturnType<typeof calculateGreeks>, // USD Greeks of the equivalent linear option
+  premium: number,                           // Premium in USD
+  underlyingPrice: number                    // Current price of the underlying in USD
+): ReturnType<typeof calculateGreeks> {
+  if (underlyingPrice <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return {
+    // Premium-adjusted delta: Δ - V / S
+    delta: greeks.delta - premium / underlyingPrice,
+    // Derivative of the adjusted delta: Γ - Δ / S + V / S²
+    gamma: greeks.gamma - greeks.delta / underlyingPrice + premium / (underlyingPrice * underlyingPrice),
+    // Remaining Greeks are USD sensitivities restated in coin
+    theta: greeks.theta / underlyingPrice,
+    vega: greeks.vega / underlyingPrice,
+    rho: greeks.rho / underlyingPrice
+  };
+}
+
+// Drift correction of a quanto: measured in the payout currency, the asset drifts
+// ρ σ_S σ_X lower, where σ_X is the volatility of the payout currency's price of
+// one unit of the asset's currency
+export function calculateQuantoDriftAdjustment(
+  volatility: number,    // Volatility of the asset as a decimal
+  fxVolatility: number,  // Volatility of the exchange rate as a decimal
+  correlation: number    // Correlation between the asset and the exchange rate
+): number {
+  return correlation * volatility * fxVolatility;
+}
+
+// European quanto option premium in the payout currency. The payoff in the asset's
+// currency is converted at a fixed rate, so the option is Black-Scholes discounted at
+// the payout rate with the asset's carry reduced by the drift adjustment.
+export function calculateQuantoPremium(
+  spotPrice: number,     // Current price of the underlying in its own currency
+  strikePrice: number,   // Strike price in the underlying's currency
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  assetRate: number,     // Interest rate of the underlying's currency as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  payoutRate: number,    // Interest rate of the payout currency as a decimal
+  fxVolatility: number,  // Volatility of the exchange rate as a decimal
+  correlation: number,   // Correlation between the asset and the exchange rate
+  fixedFxRate = 1,       // Payout currency paid per unit of the underlying's currency
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Growth rate b = r_asset - q - ρ σ_S σ_X, expressed as a yield against the payout rate
+  const quantoYield = payoutRate - assetRate + dividendYield +
+    calculateQuantoDriftAdjustment(volatility, fxVolatility, correlation);
+  return fixedFxRate * calculateOptionPremium(
+    spotPrice, strikePrice, timeToExpiry, volatility, payoutRate, isCall, quantoYield
+  );
+}
+
+// Quanto Greeks in the payout currency by finite differences, so vega includes the
+// volatility's effect on the drift adjustment. Rho is to the payout rate.
+export function calculateQuantoGreeks(
+  spotPrice: number,     // Current price of the underlying in its own currency
+  strikePrice: number,   // Strike price in the underlying's currency
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  assetRate: number,     // Interest rate of the underlying's currency as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  payoutRate: number,    // Interest rate of the payout currency as a decimal
+  fxVolatility: number,  // Volatility of the exchange rate as a decimal
+  correlation: number,   // Correlation between the asset and the exchange rate
+  fixedFxRate = 1,       // Payout currency paid per unit of the underlying's currency
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => calculateQuantoPremium(
+      spot, strikePrice, time, vol, assetRate, isCall, rate, fxVolatility, correlation, fixedFxRate, dividendYield
+    ),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    payoutRate
+  );
+}
+
+// Digital (binary) option payout types
+export type DigitalType = "cash-or-nothing" | "asset-or-nothing";
+
+// European digital option premium.
+// Cash-or-nothing pays a fixed amount and asset-or-nothing pays the underlying
+// when the option finishes in the money.
+export function calculateDigitalPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true pays above the strike, false pays below it
+  digitalType: DigitalType,
+  cashPayout = 1,        // Fixed payout of a cash-or-nothing option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  // Calculate d1 and d2 parameters
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * Math.sqrt(timeToExpiry));
+  const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
+  const sign = isCall ? 1 : -1;
+
+  if (digitalType === "cash-or-nothing") {
+    // Cash-or-nothing: Q * e^(-rt) * N(±d2)
+    return cashPayout * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(sign * d2);
+  }
+  // Asset-or-nothing: S * e^(-qt) * N(±d1)
+  return spotPrice * Math.exp(-dividendYield * timeToExpiry) * normalCDF(sign * d1);
+}
+
+// Calculate Greeks of a European digital option
+export function calculateDigitalGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true pays above the strike, false pays below it
+  digitalType: DigitalType,
+  cashPayout = 1,        // Fixed payout of a cash-or-nothing option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  // Calculate d1 and d2 parameters
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
+            (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const sign = isCall ? 1 : -1;
+  const premium = calculateDigitalPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, digitalType, cashPayout, dividendYield);
+
+  if (digitalType === "cash-or-nothing") {
+    // Probability density at the strike, scaled by the discounted payout
+    const density = cashPayout * Math.exp(-riskFreeRate * timeToExpiry) * normalPDF(d2);
+    // ∂d2/∂t = -d1 / (2t) + (r - q) / (σ√t)
+    const d2TimeDerivative = -d1 / (2 * timeToExpiry) + (riskFreeRate - dividendYield) / (volatility * sqrtT);
+
+    return {
+      delta: sign * density / (spotPrice * volatility * sqrtT),
+      gamma: -sign * density * d1 / (spotPrice * spotPrice * volatility * volatility * timeToExpiry),
+      theta: (riskFreeRate * premium - sign * density * d2TimeDerivative) / 365,
+      vega: -sign * density * d1 / volatility * 0.01,
+      rho: (-timeToExpiry * premium + sign * density * sqrtT / volatility) * 0.01
+    };
+  }
+
+  // Asset-or-nothing
+  const carryDiscount = Math.exp(-dividendYield * timeToExpiry);
+  const density = spotPrice * carryDiscount * normalPDF(d1);
+  // ∂d1/∂t = -d2 / (2t) + (r - q) / (σ√t)
+  const d1TimeDerivative = -d2 / (2 * timeToExpiry) + (riskFreeRate - dividendYield) / (volatility * sqrtT);
+
+  return {
+    delta: carryDiscount * normalCDF(sign * d1) + sign * carryDiscount * normalPDF(d1) / (volatility * sqrtT),
+    gamma: -sign * carryDiscount * normalPDF(d1) * d2 / (spotPrice * volatility * volatility * timeToExpiry),
+    theta: (dividendYield * premium - sign * density * d1TimeDerivative) / 365,
+    vega: -sign * density * d2 / volatility * 0.01,
+    rho: sign * density * sqrtT / volatility * 0.01
+  };
+}
+
+// Closed-form American option approximations
+export type AmericanApproximation = "barone-adesi-whaley" | "bjerksund-stensland";
+
+// Barone-Adesi-Whaley (1987) quadratic approximation for American options.
+// Solves for the critical price with Newton iterations, then adds the
+// early-exercise premium to the European price.
+export function calculateBaroneAdesiWhaleyPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const european = (price: number) =>
+    calculateOptionPremium(price, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+
+  // Early exercise is never optimal for calls without carry yield or for puts without interest
+  const costOfCarry = riskFreeRate - dividendYield;
+  if ((isCall && costOfCarry >= riskFreeRate) || (!isCall && riskFreeRate <= 0)) {
+    return european(spotPrice);
+  }
+
+  const variance = volatility * volatility;
+  const sqrtT = volatility * Math.sqrt(timeToExpiry);
+  const n = 2 * costOfCarry / variance;
+  const m = 2 * riskFreeRate / variance;
+  // m / (1 - e^(-rt)), taking its limit 2 / (σ² t) as r approaches zero
+  const mOverK = Math.abs(riskFreeRate) > 1e-10
+    ? m / (1 - Math.exp(-riskFreeRate * timeToExpiry))
+    : 2 / (variance * timeToExpiry);
+  const carryDiscount = Math.exp((costOfCarry - riskFreeRate) * timeToExpiry);
+  const d1At = (price: number) =>
+    (Math.log(price / strikePrice) + (costOfCarry + 0.5 * variance) * timeToExpiry) / sqrtT;
+  const tolerance = 1e-6;
+
+  if (isCall) {
+    const q2 = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + 4 * mOverK)) / 2;
+
+    // Seed value from the perpetual critical price
+    const q2Infinite = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + 4 * m)) / 2;
+    const criticalInfinite = strikePrice / (1 - 1 / q2Infinite);
+    const h2 = -(costOfCarry * timeToExpiry + 2 * sqrtT) * strikePrice / (criticalInfinite - strikePrice);
+    let critical = strikePrice + (criticalInfinite - strikePrice) * (1 - Math.exp(h2));
+
+    for (let i = 0; i < 100; i++) {
+      const d1 = d1At(critical);
+      const rhs = european(critical) + (1 - carryDiscount * normalCDF(d1)) * critical / q2;
+      if (Math.abs(critical - strikePrice - rhs) / strikePrice < tolerance) {
+        break;
+      }
+      const slope = carryDiscount * normalCDF(d1) * (1 - 1 / q2) +
+        (1 - carryDiscount * normalPDF(d1) / sqrtT) / q2;
+      critical = (strikePrice + rhs - slope * critical) / (1 - slope);
+    }
+
+    if (spotPrice >= critical) {
+      return spotPrice - strikePrice;
+    }
+    const a2 = (critical / q2) * (1 - carryDiscount * normalCDF(d1At(critical)));
+    return european(spotPrice) + a2 * Math.pow(spotPrice / critical, q2);
+  }
+
+  const q1 = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + 4 * mOverK)) / 2;
+
+  // Seed value from the perpetual critical price
+  const q1Infinite = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + 4 * m)) / 2;
+  const criticalInfinite = strikePrice / (1 - 1 / q1Infinite);
+  const h1 = (costOfCarry * timeToExpiry - 2 * sqrtT) * strikePrice / (strikePrice - criticalInfinite);
+  let critical = criticalInfinite + (strikePrice - criticalInfinite) * Math.exp(h1);
+
+  for (let i = 0; i < 100; i++) {
+    const d1 = d1At(critical);
+    const rhs = european(critical) - (1 - carryDiscount * normalCDF(-d1)) * critical / q1;
+    if (Math.abs(strikePrice - critical - rhs) / strikePrice < tolerance) {
+      break;
+    }
+    const slope = -carryDiscount * normalCDF(-d1) * (1 - 1 / q1) -
+      (1 + carryDiscount * normalPDF(-d1) / sqrtT) / q1;
+    critical = (strikePrice - rhs + slope * critical) / (1 + slope);
+  }
+
+  if (spotPrice <= critical) {
+    return strikePrice - spotPrice;
+  }
+  const a1 = -(critical / q1) * (1 - carryDiscount * normalCDF(-d1At(critical)));
+  return european(spotPrice) + a1 * Math.pow(spotPrice / critical, q1);
+}
+
+// Bjerksund-Stensland (2002) flat-boundary approximation of an American call,
+// written in terms of the cost of carry b
+function bjerksundStenslandCall(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  costOfCarry: number
+): number {
+  const variance = volatility * volatility;
+
+  // Helper functions phi and psi from the 2002 paper
+  const phi = (t: number, gamma: number, h: number, i: number) => {
+    const lambda = (-riskFreeRate + gamma * costOfCarry + 0.5 * gamma * (gamma - 1) * variance) * t;
+    const d = -(Math.log(spotPrice / h) + (costOfCarry + (gamma - 0.5) * variance) * t) / (volatility * Math.sqrt(t));
+    const kappa = 2 * costOfCarry / variance + 2 * gamma - 1;
+    return Math.exp(lambda) * Math.pow(spotPrice, gamma) *
+      (normalCDF(d) - Math.pow(i / spotPrice, kappa) * normalCDF(d - 2 * Math.log(i / spotPrice) / (volatility * Math.sqrt(t))));
+  };
+
+  const psi = (t2: number, gamma: number, h: number, i2: number, i1: number, t1: number) => {
+    const drift = costOfCarry + (gamma - 0.5) * variance;
+    const sqrtT1 = volatility * Math.sqrt(t1);
+    const sqrtT2 = volatility * Math.sqrt(t2);
+    const e1 = (Math.log(spotPrice / i1) + drift * t1) / sqrtT1;
+    const e2 = (Math.log(i2 * i2 / (spotPrice * i1)) + drift * t1) / sqrtT1;
+    const e3 = (Math.log(spotPrice / i1) - drift * t1) / sqrtT1;
+    const e4 = (Math.log(i2 * i2 / (spotPrice * i1)) - drift * t1) / sqrtT1;
+    const f1 = (Math.log(spotPrice / h) + drift * t2) / sqrtT2;
+    const f2 = (Math.log(i2 * i2 / (spotPrice * h)) + drift * t2) / sqrtT2;
+    const f3 = (Math.log(i1 * i1 / (spotPrice * h)) + drift * t2) / sqrtT2;
+    const f4 = (Math.log(spotPrice * i1 * i1 / (h * i2 * i2)) + drift * t2) / sqrtT2;
+    const rho = Math.sqrt(t1 / t2);
+    const lambda = -riskFreeRate + gamma * costOfCarry + 0.5 * gamma * (gamma - 1) * variance;
+    const kappa = 2 * costOfCarry / variance + 2 * gamma - 1;
+    return Math.exp(lambda * t2) * Math.pow(spotPrice, gamma) * (
+      bivariateNormalCDF(-e1, -f1, rho) -
+      Math.pow(i2 / spotPrice, kappa) * bivariateNormalCDF(-e2, -f2, rho) -
+      Math.pow(i1 / spotPrice, kappa) * bivariateNormalCDF(-e3, -f3, -rho) +
+      Math.pow(i1 / i2, kappa) * bivariateNormalCDF(-e4, -f4, -rho)
+    );
+  };
+
+  const t1 = 0.5 * (Math.sqrt(5) - 1) * timeToExpiry;
+  const beta = (0.5 - costOfCarry / variance) +
+    Math.sqrt(Math.pow(costOfCarry / variance - 0.5, 2) + 2 * riskFreeRate / variance);
+  const bInfinity = beta / (beta - 1) * strikePrice;
+  const b0 = Math.max(strikePrice, riskFreeRate / (riskFreeRate - costOfCarry) * strikePrice);
+  const ht1 = -(costOfCarry * t1 + 2 * volatility * Math.sqrt(t1)) * strikePrice * strikePrice / ((bInfinity - b0) * b0);
+  const ht2 = -(costOfCarry * timeToExpiry + 2 * volatility * Math.sqrt(timeToExpiry)) * strikePrice * strikePrice / ((bInfinity - b0) * b0);
+  const i1 = b0 + (bInfinity - b0) * (1 - Math.exp(ht1));
+  const i2 = b0 + (bInfinity - b0) * (1 - Math.exp(ht2));
+  const alpha1 = (i1 - strikePrice) * Math.pow(i1, -beta);
+  const alpha2 = (i2 - strikePrice) * Math.pow(i2, -beta);
+
+  if (spotPrice >= i2) {
+    return spotPrice - strikePrice;
+  }
+
+  return alpha2 * Math.pow(spotPrice, beta) - alpha2 * phi(t1, beta, i2, i2) +
+    phi(t1, 1, i2, i2) - phi(t1, 1, i1, i2) -
+    strikePrice * phi(t1, 0, i2, i2) + strikePrice * phi(t1, 0, i1, i2) +
+    alpha1 * phi(t1, beta, i1, i2) - alpha1 * psi(timeToExpiry, beta, i1, i2, i1, t1) +
+    psi(timeToExpiry, 1, i1, i2, i1, t1) - psi(timeToExpiry, 1, strikePrice, i2, i1, t1) -
+    strikePrice * psi(timeToExpiry, 0, i1, i2, i1, t1) + strikePrice * psi(timeToExpiry, 0, strikePrice, i2, i1, t1);
+}
+
+// Bjerksund-Stensland (2002) approximation for American options.
+// Puts are priced through the put-call transformation P(S, K, r, b) = C(K, S, r - b, -b).
+export function calculateBjerksundStenslandPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const costOfCarry = riskFreeRate - dividendYield;
+  const [price, strike, rate, carry] = isCall
+    ? [spotPrice, strikePrice, riskFreeRate, costOfCarry]
+    : [strikePrice, spotPrice, riskFreeRate - costOfCarry, -costOfCarry];
+
+  // Early exercise is never optimal when the carry is at least the interest rate
+  if (carry >= rate) {
+    return calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+  }
+
+  return bjerksundStenslandCall(price, strike, timeToExpiry, volatility, rate, carry);
+}
+
+// Calculate Greeks of any pricing function by central finite differences.
+// The pricer receives (spot, time to expiry, volatility, rate) and returns a premium.
+export function calculateFiniteDifferenceGreeks(
+  priceWith: (spot: number, time: number, vol: number, rate: number) => number,
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number   // Risk-free interest rate as a decimal
+): ReturnType<typeof calculateGreeks> {
+  const price = priceWith(spotPrice, timeToExpiry, volatility, riskFreeRate);
+  const spotBump = spotPrice * 0.001;
+  const up = priceWith(spotPrice + spotBump, timeToExpiry, volatility, riskFreeRate);
+  const down = priceWith(spotPrice - spotBump, timeToExpiry, volatility, riskFreeRate);
+
+  // One day of decay, or whatever time is left if that is shorter
+  const dayBump = Math.min(1 / 365, timeToExpiry / 2);
+  const later = priceWith(spotPrice, timeToExpiry - dayBump, volatility, riskFreeRate);
+
+  const volUp = volatility + 0.0001;
+  const volDown = Math.max(1e-6, volatility - 0.0001);
+
+  return {
+    delta: (up - down) / (2 * spotBump),
+    gamma: (up - 2 * price + down) / (spotBump * spotBump),
+    theta: (later - price) / (dayBump * 365),
+    // Vega and rho per 1% change
+    vega: (priceWith(spotPrice, timeToExpiry, volUp, riskFreeRate) -
+      priceWith(spotPrice, timeToExpiry, volDown, riskFreeRate)) / (volUp - volDown) * 0.01,
+    rho: (priceWith(spotPrice, timeToExpiry, volatility, riskFreeRate + 0.0001) -
+      priceWith(spotPrice, timeToExpiry, volatility, riskFreeRate - 0.0001)) / 0.0002 * 0.01
+  };
+}
+
+// Calculate Greeks of an American approximation by finite differences
+export function calculateAmericanApproximationGreeks(
+  approximation: AmericanApproximation,
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const pricer = approximation === "barone-adesi-whaley"
+    ? calculateBaroneAdesiWhaleyPremium
+    : calculateBjerksundStenslandPremium;
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => pricer(spot, strikePrice, time, vol, rate, isCall, dividendYield),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
+
+// Single-barrier knock-in / knock-out types
+export type BarrierType = "down-and-in" | "down-and-out" | "up-and-in" | "up-and-out";
+
+// Broadie-Glasserman-Kou constant, -ζ(1/2) / √(2π)
+const DISCRETE_MONITORING_CONSTANT = 0.5826;
+
+// Shift a barrier away from the spot so the continuous-monitoring formula
+// approximates a barrier that is only checked every monitoringInterval years
+export function adjustBarrierForDiscreteMonitoring(
+  barrierLevel: number,
+  barrierType: BarrierType,
+  volatility: number,
+  monitoringInterval: number // Time between barrier checks in years, 0 for continuous
+): number {
+  if (monitoringInterval <= 0) {
+    return barrierLevel;
+  }
+  const shift = DISCRETE_MONITORING_CONSTANT * volatility * Math.sqrt(monitoringInterval);
+  return barrierType.startsWith("up") ? barrierLevel * Math.exp(shift) : barrierLevel * Math.exp(-shift);
+}
+
+// Reiner-Rubinstein (1991) closed form for single-barrier options with a rebate.
+// Knock-in rebates are paid at expiry if the barrier is never touched;
+// knock-out rebates are paid as soon as the barrier is touched.
+export function calculateBarrierPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  barrierType: BarrierType,
+  barrierLevel: number,  // Price at which the option knocks in or out
+  rebate = 0,            // Cash rebate for a knock-out that is hit or a knock-in that is not
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  monitoringInterval = 0 // Time between barrier checks in years, 0 for continuous
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || barrierLevel <= 0) {
+    return 0;
+  }
+
+  const isDown = barrierType.startsWith("down");
+  const isKnockIn = barrierType.endsWith("in");
+  const vanilla = calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+
+  // Barrier already breached: knock-outs are worth their rebate, knock-ins are vanilla options
+  if ((isDown && spotPrice <= barrierLevel) || (!isDown && spotPrice >= barrierLevel)) {
+    return isKnockIn ? vanilla : rebate;
+  }
+
+  const h = adjustBarrierForDiscreteMonitoring(barrierLevel, barrierType, volatility, monitoringInterval);
+  const costOfCarry = riskFreeRate - dividendYield;
+  const variance = volatility * volatility;
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const mu = (costOfCarry - variance / 2) / variance;
+  const lambda = Math.sqrt(mu * mu + 2 * riskFreeRate / variance);
+  const eta = isDown ? 1 : -1;
+  const phi = isCall ? 1 : -1;
+
+  const x1 = Math.log(spotPrice / strikePrice) / volSqrtT + (1 + mu) * volSqrtT;
+  const x2 = Math.log(spotPrice / h) / volSqrtT + (1 + mu) * volSqrtT;
+  const y1 = Math.log(h * h / (spotPrice * strikePrice)) / volSqrtT + (1 + mu) * volSqrtT;
+  const y2 = Math.log(h / spotPrice) / volSqrtT + (1 + mu) * volSqrtT;
+  const z = Math.log(h / spotPrice) / volSqrtT + lambda * volSqrtT;
+
+  const carryDiscount = Math.exp((costOfCarry - riskFreeRate) * timeToExpiry);
+  const rateDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const ratio = h / spotPrice;
+
+  const termA = phi * spotPrice * carryDiscount * normalCDF(phi * x1) -
+    phi * strikePrice * rateDiscount * normalCDF(phi * x1 - phi * volSqrtT);
+  const termB = phi * spotPrice * carryDiscount * normalCDF(phi * x2) -
+    phi * strikePrice * rateDiscount * normalCDF(phi * x2 - phi * volSqrtT);
+  const termC = phi * spotPrice * carryDiscount * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y1) -
+    phi * strikePrice * rateDiscount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y1 - eta * volSqrtT);
+  const termD = phi * spotPrice * carryDiscount * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y2) -
+    phi * strikePrice * rateDiscount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * volSqrtT);
+  // Rebates: E for knock-ins (paid at expiry), F for knock-outs (paid at the hit)
+  const termE = rebate * rateDiscount *
+    (normalCDF(eta * x2 - eta * volSqrtT) - Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * volSqrtT));
+  const termF = rebate *
+    (Math.pow(ratio, mu + lambda) * normalCDF(eta * z) + Math.pow(ratio, mu - lambda) * normalCDF(eta * z - 2 * eta * lambda * volSqrtT));
+
+  const strikeAboveBarrier = strikePrice > h;
+
+  if (isKnockIn) {
+    if (isCall && isDown) {
+      return (strikeAboveBarrier ? termC : termA - termB + termD) + termE;
+    }
+    if (isCall) {
+      return (strikeAboveBarrier ? termA : termB - termC + termD) + termE;
+    }
+    if (isDown) {
+      return (strikeAboveBarrier ? termB - termC + termD : termA) + termE;
+    }
+    return (strikeAboveBarrier ? termA - termB + termD : termC) + termE;
+  }
+
+  if (isCall && isDown) {
+    return (strikeAboveBarrier ? termA - termC : termB - termD) + termF;
+  }
+  if (isCall) {
+    return (strikeAboveBarrier ? 0 : termA - termB + termC - termD) + termF;
+  }
+  if (isDown) {
+    return (strikeAboveBarrier ? termA - termB + termC - termD : 0) + termF;
+  }
+  return (strikeAboveBarrier ? termB - termD : termA - termC) + termF;
+}
+
+// Calculate Greeks of a barrier option by finite differences on the closed form
+export function calculateBarrierGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  barrierType: BarrierType,
+  barrierLevel: number,  // Price at which the option knocks in or out
+  rebate = 0,            // Cash rebate for a knock-out that is hit or a knock-in that is not
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  monitoringInterval = 0 // Time between barrier checks in years, 0 for continuous
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || barrierLevel <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => calculateBarrierPremium(
+      spot, strikePrice, time, vol, rate, isCall, barrierType, barrierLevel, rebate, dividendYield, monitoringInterval
+    ),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
+
+// Probability that a call or put expires in the money when the price follows GBM.
+// With the risk-free rate as the drift this is the risk-neutral N(±d2); an
+// expected return gives a real-world estimate instead.
+export function calculateProbabilityITM(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  drift: number,         // Expected total return of the asset as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const d2 = (Math.log(spotPrice / strikePrice) + (drift - dividendYield - 0.5 * volatility * volatility) * timeToExpiry) /
+    (volatility * Math.sqrt(timeToExpiry));
+  return isCall ? normalCDF(d2) : normalCDF(-d2);
+}
+
+// Probability that the price touches a level at any time before expiry under GBM,
+// from the distribution of the running maximum (level above spot) or minimum (below)
+export function calculateTouchProbability(
+  spotPrice: number,     // Current price of the underlying asset
+  level: number,         // Price level to touch, e.g. the strike
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  drift: number,         // Expected total return of the asset as a decimal
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || level <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+  if (level === spotPrice) {
+    return 1;
+  }
+
+  // Log distance to the level and drift of the log price
+  const distance = Math.log(level / spotPrice);
+  const logDrift = drift - dividendYield - 0.5 * volatility * volatility;
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const reflection = Math.exp(2 * logDrift * distance / (volatility * volatility));
+
+  const probability = distance > 0
+    ? normalCDF((logDrift * timeToExpiry - distance) / volSqrtT) +
+      reflection * normalCDF((-logDrift * timeToExpiry - distance) / volSqrtT)
+    : normalCDF((distance - logDrift * timeToExpiry) / volSqrtT) +
+      reflection * normalCDF((distance + logDrift * timeToExpiry) / volSqrtT);
+  return Math.min(1, probability);
+}
+
+export interface ExpectedMove {
+  move: number;                  // One standard deviation move, S σ √T
+  oneSigma: [number, number];    // Price range for a ±1σ log-return move
+  twoSigma: [number, number];    // Price range for a ±2σ log-return move
+}
+
+// Expected move to expiry implied by the volatility
+export function calculateExpectedMove(
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number     // Implied volatility as a decimal
+): ExpectedMove {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { move: 0, oneSigma: [spotPrice, spotPrice], twoSigma: [spotPrice, spotPrice] };
+  }
+
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  return {
+    move: spotPrice * volSqrtT,
+    oneSigma: [spotPrice * Math.exp(-volSqrtT), spotPrice * Math.exp(volSqrtT)],
+    twoSigma: [spotPrice * Math.exp(-2 * volSqrtT), spotPrice * Math.exp(2 * volSqrtT)]
+  };
+}
+
 // Convert date to time to expiry in years
 export function dateToTimeToExpiry(expiryDate: Date): number {
   const now = new Date();
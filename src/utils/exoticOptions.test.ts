@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { calculateChooserPremium, calculateCompoundPremium, calculateLookbackPremium } from "./exoticOptions";
+
+// Reference prices from Haug, The Complete Guide to Option Pricing Formulas (2007),
+// which quotes four decimals
+describe("calculateLookbackPremium", () => {
+  it("matches Haug's floating-strike lookback call", () => {
+    // S = 120, S_min = 100, T = 0.5, r = 10%, b = 4%, σ = 30%
+    expect(calculateLookbackPremium(120, 0, 0.5, 0.3, 0.1, true, "floating", 100, 120, 0.06)).toBeCloseTo(25.3533, 3);
+  });
+});
+
+describe("calculateChooserPremium", () => {
+  it("matches Haug's simple chooser", () => {
+    // S = X = 50, t = 0.25, T = 0.5, r = b = 8%, σ = 25%
+    expect(calculateChooserPremium(50, 50, 0.5, 0.25, 0.08, 0.25)).toBeCloseTo(6.1071, 3);
+  });
+
+  it("matches Haug's complex chooser", () => {
+    // S = 50, X_c = 55, X_p = 48, t = 0.25, T_c = 0.5, T_p = 7/12, r = 10%, b = 5%, σ = 35%
+    expect(calculateChooserPremium(50, 55, 0.5, 0.35, 0.1, 0.25, 0.05, { strike: 48, expiry: 7 / 12 })).toBeCloseTo(6.0508, 3);
+  });
+});
+
+describe("calculateCompoundPremium", () => {
+  it("matches Haug's put on a call", () => {
+    // S = 500, X_1 = 520, X_2 = 50, t_1 = 0.25, T_2 = 0.5, r = 8%, b = 5%, σ = 35%
+    expect(calculateCompoundPremium(500, 520, 0.5, 0.35, 0.08, false, true, 50, 0.25, 0.03)).toBeCloseTo(21.1965, 3);
+  });
+});
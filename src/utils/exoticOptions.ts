@@ -0,0 +1,369 @@
+/**
+ * Lookback, Chooser and Compound Option Pricing
+ *
+ * This utility prices path- and decision-dependent exotics in closed form:
+ * floating- and fixed-strike lookbacks (Goldman-Sosin-Gatto, Conze-Viswanathan),
+ * simple and complex choosers (Rubinstein) and options on options (Geske).
+ */
+
+import {
+  bivariateNormalCDF,
+  calculateFiniteDifferenceGreeks,
+  calculateGreeks,
+  calculateOptionPremium,
+  normalCDF,
+  normalPDF
+} from "./blackScholes";
+
+// Floating-strike lookbacks pay against the best price seen; fixed-strike lookbacks
+// pay the best price seen against the strike
+export type LookbackStrike = "floating" | "fixed";
+
+// Put leg of a complex chooser; the call leg uses the option's own strike and expiry
+export interface ChooserPutTerms {
+  strike: number;  // Strike price of the put
+  expiry: number;  // Time to the put's expiry in years
+}
+
+// Below this cost of carry the lookback formulas switch to their b → 0 limits
+const SMALL_CARRY = 1e-6;
+
+// Halvings / doublings allowed when bracketing a critical price
+const CRITICAL_PRICE_MAX_ITERATIONS = 200;
+const CRITICAL_PRICE_TOLERANCE = 1e-10;
+
+// Extra value of monitoring the running extreme X continuously; the "up" term
+// belongs to payoffs on the maximum and the "down" term to payoffs on the minimum
+function lookbackTerm(
+  spotPrice: number,
+  extreme: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  isUp: boolean
+): number {
+  const costOfCarry = riskFreeRate - dividendYield;
+  const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spotPrice / extreme) + (costOfCarry + 0.5 * volatility * volatility) * timeToExpiry) / volSqrtT;
+  const discountedSpot = spotPrice * Math.exp(-riskFreeRate * timeToExpiry);
+
+  if (Math.abs(costOfCarry) < SMALL_CARRY) {
+    return discountedSpot * volSqrtT * (isUp
+      ? d1 * normalCDF(d1) + normalPDF(d1)
+      : normalPDF(d1) - d1 * normalCDF(-d1));
+  }
+
+  const scale = volatility * volatility / (2 * costOfCarry);
+  const reflection = Math.pow(spotPrice / extreme, -2 * costOfCarry / (volatility * volatility));
+  const shift = 2 * costOfCarry * Math.sqrt(timeToExpiry) / volatility;
+  const growth = Math.exp(costOfCarry * timeToExpiry);
+  return discountedSpot * scale * (isUp
+    ? -reflection * normalCDF(d1 - shift) + growth * normalCDF(d1)
+    : reflection * normalCDF(-d1 + shift) - growth * normalCDF(-d1));
+}
+
+// Calculate the price of a continuously monitored lookback option. The running
+// minimum and maximum are the extremes observed so far; zero (or anything inside the
+// spot price) means a new trade, which starts from the spot price.
+export function calculateLookbackPremium(
+  spotPrice: number,       // Current price of the underlying asset
+  strikePrice: number,     // Strike price, used by fixed-strike lookbacks only
+  timeToExpiry: number,    // Time to expiry in years
+  volatility: number,      // Implied volatility as a decimal
+  riskFreeRate: number,    // Risk-free interest rate as a decimal
+  isCall: boolean,         // true for call option, false for put option
+  strikeType: LookbackStrike,
+  runningMinimum: number,  // Lowest price observed so far
+  runningMaximum: number,  // Highest price observed so far
+  dividendYield = 0        // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || (strikeType === "fixed" && strikePrice <= 0)) {
+    return 0;
+  }
+
+  const minimum = Math.min(runningMinimum > 0 ? runningMinimum : spotPrice, spotPrice);
+  const maximum = Math.max(runningMaximum, spotPrice);
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const termFor = (extreme: number, isUp: boolean) =>
+    lookbackTerm(spotPrice, extreme, timeToExpiry, volatility, riskFreeRate, dividendYield, isUp);
+  const vanillaFor = (strike: number) =>
+    calculateOptionPremium(spotPrice, strike, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield);
+
+  if (strikeType === "floating") {
+    // Goldman-Sosin-Gatto: a call pays S_T - min, a put pays max - S_T
+    return isCall
+      ? vanillaFor(minimum) + termFor(minimum, false)
+      : vanillaFor(maximum) + termFor(maximum, true);
+  }
+
+  // Conze-Viswanathan: a call pays max - K, a put pays K - min. Any extreme already
+  // beyond the strike is locked in and the rest is priced from that extreme.
+  if (isCall) {
+    const extreme = Math.max(strikePrice, maximum);
+    return discount * Math.max(0, maximum - strikePrice) + vanillaFor(extreme) + termFor(extreme, true);
+  }
+  const extreme = Math.min(strikePrice, minimum);
+  return discount * Math.max(0, strikePrice - minimum) + vanillaFor(extreme) + termFor(extreme, false);
+}
+
+// Calculate lookback Greeks by finite differences, holding the observed extremes fixed
+export function calculateLookbackGreeks(
+  spotPrice: number,       // Current price of the underlying asset
+  strikePrice: number,     // Strike price, used by fixed-strike lookbacks only
+  timeToExpiry: number,    // Time to expiry in years
+  volatility: number,      // Implied volatility as a decimal
+  riskFreeRate: number,    // Risk-free interest rate as a decimal
+  isCall: boolean,         // true for call option, false for put option
+  strikeType: LookbackStrike,
+  runningMinimum: number,  // Lowest price observed so far
+  runningMaximum: number,  // Highest price observed so far
+  dividendYield = 0        // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => calculateLookbackPremium(
+      spot, strikePrice, time, vol, rate, isCall, strikeType, runningMinimum, runningMaximum, dividendYield
+    ),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
+
+// Find the price where a monotone function changes sign, searching outwards from a guess.
+// Returns a vanishingly small price if the function never changes sign.
+function findCriticalPrice(f: (price: number) => number, guess: number): number {
+  const guessSign = Math.sign(f(guess));
+  let low = guess;
+  let high = guess;
+  for (let i = 0; i < CRITICAL_PRICE_MAX_ITERATIONS; i++) {
+    if (Math.sign(f(high * 2)) !== guessSign) {
+      low = high;
+      high *= 2;
+      break;
+    }
+    if (Math.sign(f(low / 2)) !== guessSign) {
+      high = low;
+      low /= 2;
+      break;
+    }
+    low /= 2;
+    high *= 2;
+    if (i === CRITICAL_PRICE_MAX_ITERATIONS - 1) {
+      return low;
+    }
+  }
+
+  // Bisect in log price
+  const lowSign = Math.sign(f(low));
+  for (let i = 0; i < CRITICAL_PRICE_MAX_ITERATIONS && high / low - 1 > CRITICAL_PRICE_TOLERANCE; i++) {
+    const middle = Math.sqrt(low * high);
+    if (Math.sign(f(middle)) === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.sqrt(low * high);
+}
+
+// Calculate the price of a chooser option, which becomes a call or a put at the
+// choice date. Simple choosers (Rubinstein, 1991) share the strike and expiry; pass
+// the put's terms for a complex chooser.
+export function calculateChooserPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the call (and of the put for a simple chooser)
+  timeToExpiry: number,  // Time to the call's expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  chooseTime: number,    // Time to the choice date in years
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  putTerms?: ChooserPutTerms
+): number {
+  const putStrike = putTerms ? putTerms.strike : strikePrice;
+  const putExpiry = putTerms ? putTerms.expiry : timeToExpiry;
+
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || putStrike <= 0 || timeToExpiry <= 0 || putExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  const callAt = (price: number, time: number) =>
+    calculateOptionPremium(price, strikePrice, time, volatility, riskFreeRate, true, dividendYield);
+  const putAt = (price: number, time: number) =>
+    calculateOptionPremium(price, putStrike, time, volatility, riskFreeRate, false, dividendYield);
+
+  // Choice date reached: take the better of the two
+  if (chooseTime <= 0) {
+    return Math.max(callAt(spotPrice, timeToExpiry), putAt(spotPrice, putExpiry));
+  }
+  const choice = Math.min(chooseTime, timeToExpiry, putExpiry);
+  if (putTerms && choice >= Math.min(timeToExpiry, putExpiry)) {
+    // A complex chooser must be decided while both legs are still alive
+    return 0;
+  }
+
+  const costOfCarry = riskFreeRate - dividendYield;
+  const volSqrtChoice = volatility * Math.sqrt(choice);
+  const callCarry = spotPrice * Math.exp((costOfCarry - riskFreeRate) * timeToExpiry);
+  const putCarry = spotPrice * Math.exp((costOfCarry - riskFreeRate) * putExpiry);
+
+  if (!putTerms) {
+    // Call with expiry T plus a put with expiry t1 on a strike of K e^(-b (T - t1))
+    const volSqrtT = volatility * Math.sqrt(timeToExpiry);
+    const d = (Math.log(spotPrice / strikePrice) + (costOfCarry + 0.5 * volatility * volatility) * timeToExpiry) / volSqrtT;
+    const y = (Math.log(spotPrice / strikePrice) + costOfCarry * timeToExpiry + 0.5 * volatility * volatility * choice) / volSqrtChoice;
+    return callCarry * normalCDF(d) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d - volSqrtT) -
+      callCarry * normalCDF(-y) + strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-y + volSqrtChoice);
+  }
+
+  // Complex chooser: the call is chosen above the critical price where both legs are worth the same
+  const critical = findCriticalPrice(
+    (price) => callAt(price, timeToExpiry - choice) - putAt(price, putExpiry - choice),
+    spotPrice
+  );
+  const d1 = (Math.log(spotPrice / critical) + (costOfCarry + 0.5 * volatility * volatility) * choice) / volSqrtChoice;
+  const d2 = d1 - volSqrtChoice;
+  const callVolSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const putVolSqrtT = volatility * Math.sqrt(putExpiry);
+  const y1 = (Math.log(spotPrice / strikePrice) + (costOfCarry + 0.5 * volatility * volatility) * timeToExpiry) / callVolSqrtT;
+  const y2 = (Math.log(spotPrice / putStrike) + (costOfCarry + 0.5 * volatility * volatility) * putExpiry) / putVolSqrtT;
+  const rho1 = Math.sqrt(choice / timeToExpiry);
+  const rho2 = Math.sqrt(choice / putExpiry);
+
+  return callCarry * bivariateNormalCDF(d1, y1, rho1) -
+    strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * bivariateNormalCDF(d2, y1 - callVolSqrtT, rho1) -
+    putCarry * bivariateNormalCDF(-d1, -y2, rho2) +
+    putStrike * Math.exp(-riskFreeRate * putExpiry) * bivariateNormalCDF(-d2, -y2 + putVolSqrtT, rho2);
+}
+
+// Calculate chooser Greeks by finite differences; theta moves the choice date too
+export function calculateChooserGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the call (and of the put for a simple chooser)
+  timeToExpiry: number,  // Time to the call's expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  chooseTime: number,    // Time to the choice date in years
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  putTerms?: ChooserPutTerms
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => {
+      const elapsed = timeToExpiry - time;
+      return calculateChooserPremium(
+        spot, strikePrice, time, vol, rate, chooseTime - elapsed, dividendYield,
+        putTerms && { strike: putTerms.strike, expiry: putTerms.expiry - elapsed }
+      );
+    },
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
+
+// Calculate the price of an option on an option (Geske, 1979). At the compound
+// expiry the holder may pay the compound strike to receive the underlying option.
+export function calculateCompoundPremium(
+  spotPrice: number,         // Current price of the underlying asset
+  strikePrice: number,       // Strike price of the underlying option
+  timeToExpiry: number,      // Time to the underlying option's expiry in years
+  volatility: number,        // Implied volatility as a decimal
+  riskFreeRate: number,      // Risk-free interest rate as a decimal
+  isCall: boolean,           // true for a call on the option, false for a put on it
+  isUnderlyingCall: boolean, // true if the underlying option is a call
+  compoundStrike: number,    // Price paid (call) or received (put) for the underlying option
+  compoundExpiry: number,    // Time to the compound option's expiry in years
+  dividendYield = 0          // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || compoundStrike <= 0) {
+    return 0;
+  }
+
+  const underlyingAt = (price: number, time: number) =>
+    calculateOptionPremium(price, strikePrice, time, volatility, riskFreeRate, isUnderlyingCall, dividendYield);
+
+  // Compound expiry reached: exercise if worthwhile
+  if (compoundExpiry <= 0) {
+    const value = underlyingAt(spotPrice, timeToExpiry);
+    return Math.max(0, isCall ? value - compoundStrike : compoundStrike - value);
+  }
+  // The underlying option must outlive the compound option
+  if (compoundExpiry >= timeToExpiry) {
+    return 0;
+  }
+  const t1 = compoundExpiry;
+
+  // Price at which the underlying option is worth exactly the compound strike at t1
+  const critical = findCriticalPrice((price) => underlyingAt(price, timeToExpiry - t1) - compoundStrike, spotPrice);
+
+  const costOfCarry = riskFreeRate - dividendYield;
+  const volSqrtT1 = volatility * Math.sqrt(t1);
+  const volSqrtT2 = volatility * Math.sqrt(timeToExpiry);
+  const y1 = (Math.log(spotPrice / critical) + (costOfCarry + 0.5 * volatility * volatility) * t1) / volSqrtT1;
+  const y2 = y1 - volSqrtT1;
+  const z1 = (Math.log(spotPrice / strikePrice) + (costOfCarry + 0.5 * volatility * volatility) * timeToExpiry) / volSqrtT2;
+  const z2 = z1 - volSqrtT2;
+  const rho = Math.sqrt(t1 / timeToExpiry);
+
+  const carrySpot = spotPrice * Math.exp((costOfCarry - riskFreeRate) * timeToExpiry);
+  const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+  const discountedCompoundStrike = compoundStrike * Math.exp(-riskFreeRate * t1);
+
+  if (isUnderlyingCall) {
+    return isCall
+      ? carrySpot * bivariateNormalCDF(z1, y1, rho) - discountedStrike * bivariateNormalCDF(z2, y2, rho) -
+        discountedCompoundStrike * normalCDF(y2)
+      : discountedStrike * bivariateNormalCDF(z2, -y2, -rho) - carrySpot * bivariateNormalCDF(z1, -y1, -rho) +
+        discountedCompoundStrike * normalCDF(-y2);
+  }
+  return isCall
+    ? discountedStrike * bivariateNormalCDF(-z2, -y2, rho) - carrySpot * bivariateNormalCDF(-z1, -y1, rho) -
+      discountedCompoundStrike * normalCDF(-y2)
+    : carrySpot * bivariateNormalCDF(-z1, y1, -rho) - discountedStrike * bivariateNormalCDF(-z2, y2, -rho) +
+      discountedCompoundStrike * normalCDF(y2);
+}
+
+// Calculate compound option Greeks by finite differences; theta moves the compound expiry too
+export function calculateCompoundGreeks(
+  spotPrice: number,         // Current price of the underlying asset
+  strikePrice: number,       // Strike price of the underlying option
+  timeToExpiry: number,      // Time to the underlying option's expiry in years
+  volatility: number,        // Implied volatility as a decimal
+  riskFreeRate: number,      // Risk-free interest rate as a decimal
+  isCall: boolean,           // true for a call on the option, false for a put on it
+  isUnderlyingCall: boolean, // true if the underlying option is a call
+  compoundStrike: number,    // Price paid (call) or received (put) for the underlying option
+  compoundExpiry: number,    // Time to the compound option's expiry in years
+  dividendYield = 0          // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || compoundStrike <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => calculateCompoundPremium(
+      spot, strikePrice, time, vol, rate, isCall, isUnderlyingCall, compoundStrike,
+      compoundExpiry - (timeToExpiry - time), dividendYield
+    ),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
@@ -0,0 +1,367 @@
+/**
+ * Finite-Difference (PDE) Option Pricing
+ *
+ * This utility solves the Black-Scholes PDE with the Crank-Nicolson scheme on a
+ * grid in log price. Early exercise is handled by projected successive
+ * over-relaxation (PSOR) and barriers by placing a grid boundary on the barrier.
+ * Delta, gamma and theta are read straight off the grid.
+ */
+
+import { adjustBarrierForDiscreteMonitoring, BarrierType, calculateGreeks } from "./blackScholes";
+
+export interface GridSize {
+  spotSteps: number;  // Number of intervals in log price
+  timeSteps: number;  // Number of intervals in time
+}
+
+export const DEFAULT_GRID_SIZE: GridSize = { spotSteps: 200, timeSteps: 200 };
+
+export interface GridBarrier {
+  type: BarrierType;
+  level: number;              // Price at which the option knocks in or out
+  rebate: number;             // Cash rebate for a knock-out that is hit or a knock-in that is not
+  monitoringInterval: number; // Time between barrier checks in years, 0 for continuous
+}
+
+// Standard deviations of the log price covered on each side of the spot
+const GRID_WIDTH = 5;
+
+// Largest grid accepted in either direction. An American grid re-runs PSOR at every
+// time step on each recalculation, so this is kept low enough to price per keystroke.
+export const MAX_GRID_STEPS = 400;
+
+// The first time steps are split into two fully implicit half-steps (Rannacher
+// smoothing), which damps the oscillations Crank-Nicolson shows at the payoff kink
+const RANNACHER_STEPS = 2;
+
+const PSOR_RELAXATION = 1.2;
+const PSOR_TOLERANCE = 1e-9;
+const PSOR_MAX_ITERATIONS = 1000;
+
+// Option value and grid Greeks at the spot price
+interface GridResult {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+}
+
+// Terminal condition and boundaries of one PDE problem
+interface GridProblem {
+  payoff: (price: number) => number;
+  isAmerican: boolean;                             // Project onto the payoff at every step
+  farValue: (price: number, tau: number) => number; // Value on a boundary away from any barrier
+  barrierValue: (tau: number) => number;           // Value on a barrier boundary
+  lowerBarrier?: number;
+  upperBarrier?: number;
+}
+
+// Asymptotic value of a vanilla option far from the strike, used on the outer boundaries
+function vanillaFarValue(
+  strikePrice: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  isCall: boolean,
+  isAmerican: boolean
+): (price: number, tau: number) => number {
+  return (price, tau) => {
+    const discountedStrike = strikePrice * Math.exp(-riskFreeRate * tau);
+    const discountedPrice = price * Math.exp(-dividendYield * tau);
+    const european = isCall ? discountedPrice - discountedStrike : discountedStrike - discountedPrice;
+    const intrinsic = isAmerican ? (isCall ? price - strikePrice : strikePrice - price) : 0;
+    return Math.max(0, european, intrinsic);
+  };
+}
+
+// Solve a single PDE problem backwards from expiry and read off the value at the spot
+function solveGrid(
+  problem: GridProblem,
+  spotPrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  grid: GridSize
+): GridResult {
+  const spotSteps = Math.min(MAX_GRID_STEPS, Math.max(4, Math.round(grid.spotSteps)));
+  const timeSteps = Math.min(MAX_GRID_STEPS, Math.max(1, Math.round(grid.timeSteps)));
+
+  // Log-price grid, with a barrier exactly on the boundary node
+  const halfWidth = GRID_WIDTH * volatility * Math.sqrt(timeToExpiry);
+  const logSpot = Math.log(spotPrice);
+  const lowerLog = problem.lowerBarrier !== undefined ? Math.log(problem.lowerBarrier) : logSpot - halfWidth;
+  const upperLog = problem.upperBarrier !== undefined ? Math.log(problem.upperBarrier) : logSpot + halfWidth;
+  const dx = (upperLog - lowerLog) / spotSteps;
+  const prices = new Float64Array(spotSteps + 1);
+  for (let j = 0; j <= spotSteps; j++) {
+    prices[j] = Math.exp(lowerLog + j * dx);
+  }
+
+  // In log price the operator is constant: L V_j = α V_(j-1) + β V_j + γ V_(j+1)
+  const diffusion = 0.5 * volatility * volatility / (dx * dx);
+  const convection = (riskFreeRate - dividendYield - 0.5 * volatility * volatility) / (2 * dx);
+  const alpha = diffusion - convection;
+  const beta = -2 * diffusion - riskFreeRate;
+  const gamma = diffusion + convection;
+
+  const boundaryAt = (j: number, tau: number) => {
+    const onBarrier = (j === 0 && problem.lowerBarrier !== undefined) ||
+      (j === spotSteps && problem.upperBarrier !== undefined);
+    return onBarrier ? problem.barrierValue(tau) : problem.farValue(prices[j], tau);
+  };
+
+  let values = new Float64Array(spotSteps + 1);
+  for (let j = 0; j <= spotSteps; j++) {
+    values[j] = problem.payoff(prices[j]);
+  }
+  values[0] = boundaryAt(0, 0);
+  values[spotSteps] = boundaryAt(spotSteps, 0);
+
+  const exerciseValues = problem.isAmerican ? Array.from(prices, problem.payoff) : null;
+
+  // Time steps as [length, implicitness]: θ = 1 is fully implicit, θ = ½ is Crank-Nicolson
+  const dt = timeToExpiry / timeSteps;
+  const schedule: [number, number][] = [];
+  for (let step = 0; step < timeSteps; step++) {
+    if (step < RANNACHER_STEPS) {
+      schedule.push([dt / 2, 1], [dt / 2, 1]);
+    } else {
+      schedule.push([dt, 0.5]);
+    }
+  }
+
+  const interior = spotSteps - 1;
+  const lower = new Float64Array(interior);
+  const diagonal = new Float64Array(interior);
+  const upper = new Float64Array(interior);
+  const rhs = new Float64Array(interior);
+  let previousValues = values;
+  let tau = 0;
+
+  for (const [h, theta] of schedule) {
+    const next = new Float64Array(spotSteps + 1);
+    tau += h;
+    next[0] = boundaryAt(0, tau);
+    next[spotSteps] = boundaryAt(spotSteps, tau);
+
+    // (I - θhL) V_new = (I + (1 - θ)hL) V_old on the interior nodes
+    const explicitWeight = (1 - theta) * h;
+    for (let i = 0; i < interior; i++) {
+      const j = i + 1;
+      lower[i] = -theta * h * alpha;
+      diagonal[i] = 1 - theta * h * beta;
+      upper[i] = -theta * h * gamma;
+      rhs[i] = values[j] + explicitWeight * (alpha * values[j - 1] + beta * values[j] + gamma * values[j + 1]);
+    }
+    rhs[0] -= lower[0] * next[0];
+    rhs[interior - 1] -= upper[interior - 1] * next[spotSteps];
+
+    if (exerciseValues) {
+      // PSOR: Gauss-Seidel sweeps with over-relaxation, projected onto the exercise value
+      for (let j = 1; j < spotSteps; j++) {
+        next[j] = Math.max(values[j], exerciseValues[j]);
+      }
+      for (let iteration = 0; iteration < PSOR_MAX_ITERATIONS; iteration++) {
+        let change = 0;
+        for (let i = 0; i < interior; i++) {
+          const j = i + 1;
+          const gaussSeidel = (rhs[i] - (i > 0 ? lower[i] * next[j - 1] : 0) -
+            (i < interior - 1 ? upper[i] * next[j + 1] : 0)) / diagonal[i];
+          const updated = Math.max(exerciseValues[j], next[j] + PSOR_RELAXATION * (gaussSeidel - next[j]));
+          change += (updated - next[j]) * (updated - next[j]);
+          next[j] = updated;
+        }
+        if (change < PSOR_TOLERANCE * PSOR_TOLERANCE) {
+          break;
+        }
+      }
+    } else {
+      // Thomas algorithm for the tridiagonal system
+      const modifiedUpper = new Float64Array(interior);
+      const modifiedRhs = new Float64Array(interior);
+      modifiedUpper[0] = upper[0] / diagonal[0];
+      modifiedRhs[0] = rhs[0] / diagonal[0];
+      for (let i = 1; i < interior; i++) {
+        const pivot = diagonal[i] - lower[i] * modifiedUpper[i - 1];
+        modifiedUpper[i] = upper[i] / pivot;
+        modifiedRhs[i] = (rhs[i] - lower[i] * modifiedRhs[i - 1]) / pivot;
+      }
+      next[interior] = modifiedRhs[interior - 1];
+      for (let i = interior - 2; i >= 0; i--) {
+        next[i + 1] = modifiedRhs[i] - modifiedUpper[i] * next[i + 2];
+      }
+    }
+
+    previousValues = values;
+    values = next;
+  }
+
+  // Quadratic through the three nodes around the spot, in log price
+  const lastStep = schedule[schedule.length - 1][0];
+  const position = (logSpot - lowerLog) / dx;
+  const j = Math.min(spotSteps - 1, Math.max(1, Math.round(position)));
+  const u = position - j;
+  const readAt = (nodes: Float64Array) => {
+    const slope = (nodes[j + 1] - nodes[j - 1]) / 2;
+    const curvature = nodes[j + 1] - 2 * nodes[j] + nodes[j - 1];
+    return {
+      value: nodes[j] + u * slope + 0.5 * u * u * curvature,
+      firstDerivative: (slope + u * curvature) / dx,
+      secondDerivative: curvature / (dx * dx)
+    };
+  };
+  const today = readAt(values);
+  const tomorrow = readAt(previousValues);
+
+  // dV/dS = V_x / S and d²V/dS² = (V_xx - V_x) / S²; theta per day
+  return {
+    price: today.value,
+    delta: today.firstDerivative / spotPrice,
+    gamma: (today.secondDerivative - today.firstDerivative) / (spotPrice * spotPrice),
+    theta: (tomorrow.value - today.value) / lastStep / 365
+  };
+}
+
+// Price on the grid, splitting knock-ins into a vanilla option less a knock-out
+function priceOnGrid(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  grid: GridSize,
+  dividendYield: number,
+  barrier?: GridBarrier
+): GridResult {
+  const payoff = (price: number) =>
+    isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+  const solve = (problem: GridProblem) =>
+    solveGrid(problem, spotPrice, timeToExpiry, volatility, riskFreeRate, dividendYield, grid);
+
+  const vanilla = (american: boolean) => solve({
+    payoff,
+    isAmerican: american,
+    farValue: vanillaFarValue(strikePrice, riskFreeRate, dividendYield, isCall, american),
+    barrierValue: () => 0
+  });
+
+  if (!barrier) {
+    return vanilla(isAmerican);
+  }
+
+  const isDown = barrier.type.startsWith("down");
+  const isKnockIn = barrier.type.endsWith("in");
+
+  // Barrier already breached: knock-outs are worth their rebate, knock-ins are vanilla options
+  if ((isDown && spotPrice <= barrier.level) || (!isDown && spotPrice >= barrier.level)) {
+    return isKnockIn ? vanilla(isAmerican) : { price: barrier.rebate, delta: 0, gamma: 0, theta: 0 };
+  }
+
+  const level = adjustBarrierForDiscreteMonitoring(barrier.level, barrier.type, volatility, barrier.monitoringInterval);
+  const barrierBounds = isDown ? { lowerBarrier: level } : { upperBarrier: level };
+
+  if (!isKnockIn) {
+    // Knock-out rebates are paid as soon as the barrier is touched
+    return solve({
+      payoff,
+      isAmerican,
+      farValue: vanillaFarValue(strikePrice, riskFreeRate, dividendYield, isCall, isAmerican),
+      barrierValue: () => barrier.rebate,
+      ...barrierBounds
+    });
+  }
+
+  // Knock-in = vanilla - knock-out, plus the rebate paid at expiry if the barrier is
+  // never touched. In-out parity only holds for European exercise.
+  const european = vanilla(false);
+  const knockOut = solve({
+    payoff,
+    isAmerican: false,
+    farValue: vanillaFarValue(strikePrice, riskFreeRate, dividendYield, isCall, false),
+    barrierValue: () => 0,
+    ...barrierBounds
+  });
+  const survival = barrier.rebate > 0
+    ? solve({
+        payoff: () => 1,
+        isAmerican: false,
+        farValue: (_price, tau) => Math.exp(-riskFreeRate * tau),
+        barrierValue: () => 0,
+        ...barrierBounds
+      })
+    : { price: 0, delta: 0, gamma: 0, theta: 0 };
+
+  return {
+    price: european.price - knockOut.price + barrier.rebate * survival.price,
+    delta: european.delta - knockOut.delta + barrier.rebate * survival.delta,
+    gamma: european.gamma - knockOut.gamma + barrier.rebate * survival.gamma,
+    theta: european.theta - knockOut.theta + barrier.rebate * survival.theta
+  };
+}
+
+// Price a European or American option, optionally with a single barrier, on a
+// Crank-Nicolson grid
+export function calculatePdePremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  isAmerican: boolean,   // true to allow early exercise at every time step
+  grid: GridSize = DEFAULT_GRID_SIZE,
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  barrier?: GridBarrier  // Knock-in or knock-out barrier; knock-ins are always European
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || (barrier && barrier.level <= 0)) {
+    return 0;
+  }
+
+  return priceOnGrid(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, isAmerican, grid, dividendYield, barrier).price;
+}
+
+// Calculate Greeks from the grid: delta, gamma and theta from the nodes around
+// the spot, vega and rho by re-solving with bumped inputs
+export function calculatePdeGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  isAmerican: boolean,   // true to allow early exercise at every time step
+  grid: GridSize = DEFAULT_GRID_SIZE,
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  barrier?: GridBarrier  // Knock-in or knock-out barrier; knock-ins are always European
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || (barrier && barrier.level <= 0)) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const result = priceOnGrid(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, isAmerican, grid, dividendYield, barrier);
+
+  const priceWith = (vol: number, rate: number) =>
+    priceOnGrid(spotPrice, strikePrice, timeToExpiry, vol, rate, isCall, isAmerican, grid, dividendYield, barrier).price;
+
+  // Vega per 1% change in volatility
+  const volBump = 0.01;
+  const vega = volatility > volBump
+    ? (priceWith(volatility + volBump, riskFreeRate) - priceWith(volatility - volBump, riskFreeRate)) / 2
+    : priceWith(volatility + volBump, riskFreeRate) - result.price;
+
+  // Rho per 1% change in the interest rate
+  const rateBump = 0.0001;
+  const rho = (priceWith(volatility, riskFreeRate + rateBump) - priceWith(volatility, riskFreeRate - rateBump)) / (2 * rateBump) * 0.01;
+
+  return {
+    delta: result.delta,
+    gamma: result.gamma,
+    theta: result.theta,
+    vega,
+    rho
+  };
+}
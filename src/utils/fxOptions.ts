@@ -0,0 +1,86 @@
+/**
+ * FX Option Pricing (Garman-Kohlhagen)
+ *
+ * This utility prices options on an exchange rate quoted as FOR/DOM (domestic
+ * units per unit of foreign currency). Both currencies earn interest, so the
+ * foreign rate plays the role of the dividend yield in Black-Scholes-Merton.
+ * It also restates the premium in the standard FX quoting conventions.
+ */
+
+import { calculateGreeks, calculateOptionPremium, normalCDF } from "./blackScholes";
+
+// Standard FX premium quotes for a premium of V domestic per unit of foreign notional
+export type FxPremiumConvention =
+  | "domestic-pips"     // Domestic pips per unit of foreign: V / pip
+  | "percent-foreign"   // Percent of the foreign notional: V / S
+  | "foreign-pips"      // Foreign pips per unit of domestic: V / (S K) / pip
+  | "percent-domestic"; // Percent of the domestic notional: V / K
+
+// Size of one pip for most currency pairs (JPY pairs use 0.01)
+export const DEFAULT_PIP_SIZE = 0.0001;
+
+// Calculate the price of an FX option in domestic currency per unit of foreign notional
+export function calculateGarmanKohlhagenPremium(
+  spotRate: number,      // Spot exchange rate, domestic per unit of foreign
+  strikeRate: number,    // Strike exchange rate
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  domesticRate: number,  // Domestic (quote currency) interest rate as a decimal
+  foreignRate: number,   // Foreign (base currency) interest rate as a decimal
+  isCall: boolean        // true for a call on the foreign currency, false for a put
+): number {
+  return calculateOptionPremium(spotRate, strikeRate, timeToExpiry, volatility, domesticRate, isCall, foreignRate);
+}
+
+// Garman-Kohlhagen Greeks; rho is to the domestic rate and foreignRho to the
+// foreign rate, both per 1% change
+export function calculateGarmanKohlhagenGreeks(
+  spotRate: number,      // Spot exchange rate, domestic per unit of foreign
+  strikeRate: number,    // Strike exchange rate
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  domesticRate: number,  // Domestic (quote currency) interest rate as a decimal
+  foreignRate: number,   // Foreign (base currency) interest rate as a decimal
+  isCall: boolean        // true for a call on the foreign currency, false for a put
+): ReturnType<typeof calculateGreeks> & { foreignRho: number } {
+  const greeks = calculateGreeks(spotRate, strikeRate, timeToExpiry, volatility, domesticRate, isCall, foreignRate);
+
+  // Check for invalid inputs
+  if (spotRate <= 0 || strikeRate <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { ...greeks, foreignRho: 0 };
+  }
+
+  // ∂V/∂r_f = -T S e^(-r_f T) N(d1) for calls and +T S e^(-r_f T) N(-d1) for puts
+  const d1 = (Math.log(spotRate / strikeRate) + (domesticRate - foreignRate + 0.5 * volatility * volatility) * timeToExpiry) /
+    (volatility * Math.sqrt(timeToExpiry));
+  const foreignDiscountedSpot = spotRate * Math.exp(-foreignRate * timeToExpiry);
+  const foreignRho = (isCall
+    ? -timeToExpiry * foreignDiscountedSpot * normalCDF(d1)
+    : timeToExpiry * foreignDiscountedSpot * normalCDF(-d1)) * 0.01;
+
+  return { ...greeks, foreignRho };
+}
+
+// Restate a premium (domestic per unit of foreign notional) in an FX quoting convention
+export function convertFxPremium(
+  premium: number,       // Premium in domestic currency per unit of foreign notional
+  spotRate: number,      // Spot exchange rate, domestic per unit of foreign
+  strikeRate: number,    // Strike exchange rate
+  convention: FxPremiumConvention,
+  pipSize = DEFAULT_PIP_SIZE
+): number {
+  if (spotRate <= 0 || strikeRate <= 0 || pipSize <= 0) {
+    return 0;
+  }
+
+  switch (convention) {
+    case "domestic-pips":
+      return premium / pipSize;
+    case "percent-foreign":
+      return premium / spotRate * 100;
+    case "foreign-pips":
+      return premium / (spotRate * strikeRate) / pipSize;
+    case "percent-domestic":
+      return premium / strikeRate * 100;
+  }
+}
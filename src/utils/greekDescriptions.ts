@@ -4,4 +4,30 @@ export const greekDescriptions = {
   theta: "Measures how much the option price changes as time passes (time decay)",
   vega: "Measures how much the option price changes when implied volatility changes by 1%",
   rho: "Measures how much the option price changes when interest rates change by 1%"
-}; 
\ No newline at end of file
+};
+
+// Bachelier vega is per unit of normal volatility, which is quoted in price units
+export const bachelierVegaDescription =
+  "Measures how much the option price changes when the normal volatility changes by $1";
+
+export const advancedGreekDescriptions = {
+  vanna: "Measures how much delta changes when implied volatility changes by 1%",
+  volga: "Measures how much vega changes when implied volatility changes by 1% (also called vomma)",
+  charm: "Measures how much delta changes as one day passes (delta decay)",
+  speed: "Measures how much gamma changes when the underlying price changes by $1",
+  zomma: "Measures how much gamma changes when implied volatility changes by 1%",
+  color: "Measures how much gamma changes as one day passes (gamma decay)",
+  veta: "Measures how much vega changes as one day passes (vega decay)",
+  dualDelta: "Measures how much the option price changes when the strike price changes by $1"
+};
+
+export const advancedGreekLabels = {
+  vanna: "Vanna",
+  volga: "Volga",
+  charm: "Charm",
+  speed: "Speed",
+  zomma: "Zomma",
+  color: "Color",
+  veta: "Veta",
+  dualDelta: "Dual Delta"
+};
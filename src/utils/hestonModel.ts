@@ -0,0 +1,189 @@
+/**
+ * Heston Stochastic Volatility Model
+ *
+ * This utility prices European options under the Heston (1993) model, where the
+ * variance follows a mean-reverting square-root process correlated with the
+ * asset. Prices come from Fourier inversion of the characteristic function,
+ * using the "little trap" form of Albrecher et al. that stays continuous for
+ * long expiries.
+ */
+
+import { calculateGreeks, calculateFiniteDifferenceGreeks } from "./blackScholes";
+
+export interface HestonParameters {
+  v0: number;     // Initial variance (the square of the current volatility)
+  kappa: number;  // Speed at which the variance reverts to theta
+  theta: number;  // Long-run variance
+  xi: number;     // Volatility of the variance (vol of vol)
+  rho: number;    // Correlation between asset and variance shocks
+}
+
+// Minimal complex arithmetic for the characteristic function
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const complex = (re: number, im = 0): Complex => ({ re, im });
+const add = (a: Complex, b: Complex): Complex => complex(a.re + b.re, a.im + b.im);
+const sub = (a: Complex, b: Complex): Complex => complex(a.re - b.re, a.im - b.im);
+const mul = (a: Complex, b: Complex): Complex => complex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const scale = (a: Complex, k: number): Complex => complex(a.re * k, a.im * k);
+
+const div = (a: Complex, b: Complex): Complex => {
+  const denominator = b.re * b.re + b.im * b.im;
+  return complex((a.re * b.re + a.im * b.im) / denominator, (a.im * b.re - a.re * b.im) / denominator);
+};
+
+const exp = (a: Complex): Complex => {
+  const magnitude = Math.exp(a.re);
+  return complex(magnitude * Math.cos(a.im), magnitude * Math.sin(a.im));
+};
+
+const log = (a: Complex): Complex => complex(Math.log(Math.hypot(a.re, a.im)), Math.atan2(a.im, a.re));
+
+// Principal square root
+const sqrt = (a: Complex): Complex => {
+  const magnitude = Math.hypot(a.re, a.im);
+  const re = Math.sqrt((magnitude + a.re) / 2);
+  const im = Math.sqrt(Math.max(0, (magnitude - a.re) / 2));
+  return complex(re, a.im < 0 ? -im : im);
+};
+
+// Characteristic function of ln(S_T / F), where F is the forward price
+function characteristicFunction(u: Complex, timeToExpiry: number, params: HestonParameters): Complex {
+  const { v0, kappa, theta, xi, rho } = params;
+  const iu = mul(complex(0, 1), u);
+
+  // β = κ - ρξiu, d = √(β² + ξ²(iu + u²))
+  const beta = sub(complex(kappa), scale(iu, rho * xi));
+  const d = sqrt(add(mul(beta, beta), scale(add(iu, mul(u, u)), xi * xi)));
+  const g = div(sub(beta, d), add(beta, d));
+  const decay = exp(scale(d, -timeToExpiry));
+  const oneMinusGDecay = sub(complex(1), mul(g, decay));
+
+  const C = scale(
+    sub(scale(sub(beta, d), timeToExpiry), scale(log(div(oneMinusGDecay, sub(complex(1), g))), 2)),
+    kappa * theta / (xi * xi)
+  );
+  const D = mul(scale(sub(beta, d), 1 / (xi * xi)), div(sub(complex(1), decay), oneMinusGDecay));
+
+  return exp(add(C, scale(D, v0)));
+}
+
+// Gauss-Legendre nodes and weights on [-1, 1], found by Newton's method on P_n
+function gaussLegendre(n: number): { nodes: number[]; weights: number[] } {
+  const nodes: number[] = [];
+  const weights: number[] = [];
+  for (let i = 1; i <= n; i++) {
+    let x = Math.cos(Math.PI * (i - 0.25) / (n + 0.5));
+    let derivative = 0;
+    for (let iteration = 0; iteration < 100; iteration++) {
+      // Legendre recurrence for P_n(x) and its derivative
+      let current = 1;
+      let previous = 0;
+      for (let k = 1; k <= n; k++) {
+        const next = ((2 * k - 1) * x * current - (k - 1) * previous) / k;
+        previous = current;
+        current = next;
+      }
+      derivative = n * (x * current - previous) / (x * x - 1);
+      const delta = current / derivative;
+      x -= delta;
+      if (Math.abs(delta) < 1e-15) {
+        break;
+      }
+    }
+    nodes.push(x);
+    weights.push(2 / ((1 - x * x) * derivative * derivative));
+  }
+  return { nodes, weights };
+}
+
+const QUADRATURE = gaussLegendre(16);
+
+// Number of equal panels the Fourier integral is split into
+const INTEGRATION_PANELS = 64;
+
+// Composite Gauss-Legendre integration of a real function over [a, b]
+function integrate(f: (x: number) => number, a: number, b: number): number {
+  const width = (b - a) / INTEGRATION_PANELS;
+  let total = 0;
+  for (let panel = 0; panel < INTEGRATION_PANELS; panel++) {
+    const middle = a + (panel + 0.5) * width;
+    for (let i = 0; i < QUADRATURE.nodes.length; i++) {
+      total += QUADRATURE.weights[i] * f(middle + 0.5 * width * QUADRATURE.nodes[i]);
+    }
+  }
+  return total * width / 2;
+}
+
+// Calculate the price of a European option under the Heston model
+export function calculateHestonPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  params: HestonParameters,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  const { v0, kappa, theta, xi, rho } = params;
+  if (
+    spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 ||
+    v0 < 0 || kappa <= 0 || theta < 0 || xi <= 0 || Math.abs(rho) >= 1
+  ) {
+    return 0;
+  }
+
+  const forward = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const discount = Math.exp(-riskFreeRate * timeToExpiry);
+  const logMoneyness = Math.log(strikePrice / forward);
+
+  // Call = D(F - K)/2 + D/π ∫ Re[e^(-iuk) (F φ(u - i) - K φ(u)) / (iu)] du
+  const integrand = (u: number) => {
+    const phase = complex(Math.cos(-u * logMoneyness), Math.sin(-u * logMoneyness));
+    const numerator = sub(
+      scale(characteristicFunction(complex(u, -1), timeToExpiry, params), forward),
+      scale(characteristicFunction(complex(u), timeToExpiry, params), strikePrice)
+    );
+    return div(mul(phase, numerator), complex(0, u)).re;
+  };
+
+  // The integrand decays roughly like e^(-u σ̄ √T); integrate far enough into the tail
+  const averageVolatility = Math.sqrt(Math.max(v0, theta, 1e-4));
+  const upperLimit = Math.min(5000, Math.max(50, 40 / (averageVolatility * Math.sqrt(timeToExpiry))));
+  const integral = integrate(integrand, 0, upperLimit);
+
+  const callPrice = Math.max(0, discount * (0.5 * (forward - strikePrice) + integral / Math.PI));
+
+  // Put-call parity
+  return isCall ? callPrice : Math.max(0, callPrice - discount * (forward - strikePrice));
+}
+
+// Calculate Greeks under the Heston model by finite differences; vega is the
+// sensitivity to the current volatility √v0 with the rest of the model held fixed
+export function calculateHestonGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  params: HestonParameters,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || params.v0 <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) =>
+      calculateHestonPremium(spot, strikePrice, time, rate, isCall, { ...params, v0: vol * vol }, dividendYield),
+    spotPrice,
+    timeToExpiry,
+    Math.sqrt(params.v0),
+    riskFreeRate
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Merton Jump-Diffusion Model
+ *
+ * This utility prices European options when the asset follows geometric Brownian
+ * motion plus Poisson-distributed jumps with lognormal sizes (Merton, 1976). The
+ * price is a Poisson-weighted sum of Black-Scholes prices, one per number of jumps.
+ */
+
+import { calculateOptionPremium, calculateGreeks, calculateFiniteDifferenceGreeks } from "./blackScholes";
+
+export interface JumpParameters {
+  intensity: number;       // Expected number of jumps per year (λ)
+  meanJump: number;        // Mean of the log jump size as a decimal (μ)
+  jumpVolatility: number;  // Standard deviation of the log jump size as a decimal (δ)
+}
+
+// Stop adding terms once the Poisson weights left over are below this
+const POISSON_TAIL = 1e-12;
+
+// Most jump counts summed, as a guard for very large intensities
+const MAX_JUMPS = 200;
+
+// Average relative jump size k = E[J] - 1
+export function expectedJumpSize(jumps: JumpParameters): number {
+  return Math.exp(jumps.meanJump + 0.5 * jumps.jumpVolatility * jumps.jumpVolatility) - 1;
+}
+
+// Calculate the price of a European option under the Merton jump-diffusion model
+export function calculateMertonPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Diffusion volatility as a decimal, excluding jumps
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  jumps: JumpParameters,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || jumps.intensity < 0 || jumps.jumpVolatility < 0) {
+    return 0;
+  }
+
+  const k = expectedJumpSize(jumps);
+  const adjustedIntensity = jumps.intensity * (1 + k);
+  const meanJumps = adjustedIntensity * timeToExpiry;
+
+  // Given n jumps the option is a Black-Scholes option with vol σ_n and rate r_n:
+  // σ_n² = σ² + nδ²/T, r_n = r - λk + n ln(1 + k)/T, weighted by Poisson(λ(1 + k)T)
+  let price = 0;
+  let weight = Math.exp(-meanJumps);
+  let cumulativeWeight = 0;
+  for (let n = 0; n <= MAX_JUMPS; n++) {
+    if (n > 0) {
+      weight *= meanJumps / n;
+    }
+    const volatilityN = Math.sqrt(volatility * volatility + n * jumps.jumpVolatility * jumps.jumpVolatility / timeToExpiry);
+    const rateN = riskFreeRate - jumps.intensity * k + n * Math.log(1 + k) / timeToExpiry;
+    price += weight * calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatilityN, rateN, isCall, dividendYield);
+
+    cumulativeWeight += weight;
+    if (n >= meanJumps && 1 - cumulativeWeight < POISSON_TAIL) {
+      break;
+    }
+  }
+
+  return price;
+}
+
+// Calculate Greeks under the Merton model by finite differences; vega is the
+// sensitivity to the diffusion volatility with the jump parameters held fixed
+export function calculateMertonGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Diffusion volatility as a decimal, excluding jumps
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  jumps: JumpParameters,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  return calculateFiniteDifferenceGreeks(
+    (spot, time, vol, rate) => calculateMertonPremium(spot, strikePrice, time, vol, rate, isCall, jumps, dividendYield),
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Lattice (tree) Option Pricing Models
+ *
+ * This utility prices European and American options on Cox-Ross-Rubinstein
+ * binomial and Boyle trinomial trees, and derives the Greeks from the tree.
+ */
+
+import { calculateGreeks } from "./blackScholes";
+
+export type TreeMethod = "binomial" | "trinomial";
+
+// Values near the root of the tree, used to read off delta, gamma and theta
+interface TreeResult {
+  price: number;
+  // Step 1 (binomial: [down, up]; trinomial: [down, middle, up])
+  step1Prices: number[];
+  step1Values: number[];
+  // Step 2 (binomial only: [down-down, up-down, up-up])
+  step2Prices: number[];
+  step2Values: number[];
+  dt: number;
+}
+
+// Cox-Ross-Rubinstein binomial tree
+function buildBinomialTree(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  steps: number,
+  dividendYield: number
+): TreeResult {
+  const dt = timeToExpiry / steps;
+  const u = Math.exp(volatility * Math.sqrt(dt));
+  const d = 1 / u;
+  const p = (Math.exp((riskFreeRate - dividendYield) * dt) - d) / (u - d);
+  const discount = Math.exp(-riskFreeRate * dt);
+
+  const payoff = (price: number) =>
+    isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+
+  // Option values at expiry, indexed by number of up moves
+  const values: number[] = [];
+  for (let j = 0; j <= steps; j++) {
+    values[j] = payoff(spotPrice * Math.pow(u, 2 * j - steps));
+  }
+
+  let step1Values: number[] = [];
+  let step2Values: number[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    for (let j = 0; j <= i; j++) {
+      const continuation = discount * (p * values[j + 1] + (1 - p) * values[j]);
+      values[j] = isAmerican
+        ? Math.max(continuation, payoff(spotPrice * Math.pow(u, 2 * j - i)))
+        : continuation;
+    }
+    if (i === 2) {
+      step2Values = values.slice(0, 3);
+    } else if (i === 1) {
+      step1Values = values.slice(0, 2);
+    }
+  }
+
+  return {
+    price: values[0],
+    step1Prices: [spotPrice * d, spotPrice * u],
+    step1Values,
+    step2Prices: [spotPrice * d * d, spotPrice, spotPrice * u * u],
+    step2Values,
+    dt
+  };
+}
+
+// Boyle trinomial tree with moves of σ√(2Δt)
+function buildTrinomialTree(
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  steps: number,
+  dividendYield: number
+): TreeResult {
+  const dt = timeToExpiry / steps;
+  const u = Math.exp(volatility * Math.sqrt(2 * dt));
+  const halfUp = Math.exp(volatility * Math.sqrt(dt / 2));
+  const halfDown = 1 / halfUp;
+  const drift = Math.exp((riskFreeRate - dividendYield) * dt / 2);
+  const pu = Math.pow((drift - halfDown) / (halfUp - halfDown), 2);
+  const pd = Math.pow((halfUp - drift) / (halfUp - halfDown), 2);
+  const pm = 1 - pu - pd;
+  const discount = Math.exp(-riskFreeRate * dt);
+
+  const payoff = (price: number) =>
+    isCall ? Math.max(0, price - strikePrice) : Math.max(0, strikePrice - price);
+
+  // Option values at expiry, indexed from the lowest node (2 * steps + 1 nodes)
+  const values: number[] = [];
+  for (let j = 0; j <= 2 * steps; j++) {
+    values[j] = payoff(spotPrice * Math.pow(u, j - steps));
+  }
+
+  let step1Values: number[] = [];
+
+  for (let i = steps - 1; i >= 0; i--) {
+    for (let j = 0; j <= 2 * i; j++) {
+      const continuation = discount * (pu * values[j + 2] + pm * values[j + 1] + pd * values[j]);
+      values[j] = isAmerican
+        ? Math.max(continuation, payoff(spotPrice * Math.pow(u, j - i)))
+        : continuation;
+    }
+    if (i === 1) {
+      step1Values = values.slice(0, 3);
+    }
+  }
+
+  return {
+    price: values[0],
+    step1Prices: [spotPrice / u, spotPrice, spotPrice * u],
+    step1Values,
+    step2Prices: [],
+    step2Values: [],
+    dt
+  };
+}
+
+function buildTree(
+  method: TreeMethod,
+  spotPrice: number,
+  strikePrice: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  isCall: boolean,
+  isAmerican: boolean,
+  steps: number,
+  dividendYield: number
+): TreeResult {
+  const build = method === "trinomial" ? buildTrinomialTree : buildBinomialTree;
+  return build(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, isAmerican, Math.max(2, Math.round(steps)), dividendYield);
+}
+
+// Price a European or American option on a binomial or trinomial tree
+export function calculateTreePremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  isAmerican: boolean,   // true to allow early exercise at every step
+  steps = 200,           // Number of time steps in the tree
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  method: TreeMethod = "binomial"
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return 0;
+  }
+
+  return buildTree(method, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, isAmerican, steps, dividendYield).price;
+}
+
+// Calculate Greeks from the tree: delta, gamma and theta from the nodes next to
+// the root, vega and rho by re-pricing the tree with bumped inputs
+export function calculateTreeGreeks(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  isAmerican: boolean,   // true to allow early exercise at every step
+  steps = 200,           // Number of time steps in the tree
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  method: TreeMethod = "binomial"
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const tree = buildTree(method, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, isAmerican, steps, dividendYield);
+
+  let delta: number;
+  let gamma: number;
+  let theta: number;
+
+  if (method === "trinomial") {
+    // Three nodes at step 1 straddle the spot price
+    const [sDown, sMid, sUp] = tree.step1Prices;
+    const [vDown, vMid, vUp] = tree.step1Values;
+    delta = (vUp - vDown) / (sUp - sDown);
+    gamma = ((vUp - vMid) / (sUp - sMid) - (vMid - vDown) / (sMid - sDown)) / (0.5 * (sUp - sDown));
+    theta = (vMid - tree.price) / tree.dt / 365;
+  } else {
+    // Delta from step 1; gamma and theta from step 2, whose middle node is the spot price
+    const [sDown, sUp] = tree.step1Prices;
+    const [vDown, vUp] = tree.step1Values;
+    delta = (vUp - vDown) / (sUp - sDown);
+
+    const [sDownDown, sMid, sUpUp] = tree.step2Prices;
+    const [vDownDown, vMid, vUpUp] = tree.step2Values;
+    gamma = ((vUpUp - vMid) / (sUpUp - sMid) - (vMid - vDownDown) / (sMid - sDownDown)) / (0.5 * (sUpUp - sDownDown));
+    theta = (vMid - tree.price) / (2 * tree.dt) / 365;
+  }
+
+  const priceWith = (vol: number, rate: number) =>
+    calculateTreePremium(spotPrice, strikePrice, timeToExpiry, vol, rate, isCall, isAmerican, steps, dividendYield, method);
+
+  // Vega per 1% change in volatility
+  const volBump = 0.01;
+  const vega = volatility > volBump
+    ? (priceWith(volatility + volBump, riskFreeRate) - priceWith(volatility - volBump, riskFreeRate)) / 2
+    : priceWith(volatility + volBump, riskFreeRate) - tree.price;
+
+  // Rho per 1% change in the interest rate
+  const rateBump = 0.0001;
+  const rho = (priceWith(volatility, riskFreeRate + rateBump) - priceWith(volatility, riskFreeRate - rateBump)) / (2 * rateBump) * 0.01;
+
+  return {
+    delta,
+    gamma,
+    theta,
+    vega,
+    rho
+  };
+}
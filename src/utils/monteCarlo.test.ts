@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { calculateBarrierPremium, calculateOptionPremium } from "./blackScholes";
+import {
+  calculateBarrierMonteCarloPremium,
+  calculateMonteCarloPremium,
+  countMonitoringDates,
+  MAX_MONITORING_DATES,
+  MonteCarloResult,
+  simulateOptionPrice,
+  vanillaPayoff
+} from "./monteCarlo";
+
+const SPOT = 100;
+const TIME = 0.5;
+const VOLATILITY = 0.3;
+const RATE = 0.05;
+const YIELD = 0.02;
+
+// Seeded runs are deterministic, so each must land within 3 standard errors of the
+// closed form and its 95% interval must contain it
+function expectToMatch(result: MonteCarloResult, expected: number) {
+  expect(result.standardError).toBeGreaterThan(0);
+  expect(Math.abs(result.price - expected)).toBeLessThan(3 * result.standardError);
+  expect(result.confidenceInterval[0]).toBeLessThanOrEqual(expected);
+  expect(result.confidenceInterval[1]).toBeGreaterThanOrEqual(expected);
+}
+
+describe("calculateMonteCarloPremium", () => {
+  const cases = [
+    { strike: 100, isCall: true },
+    { strike: 110, isCall: true },
+    { strike: 90, isCall: false },
+    { strike: 105, isCall: false }
+  ];
+  const variants = [
+    { name: "plain", antithetic: false, controlVariate: false },
+    { name: "antithetic", antithetic: true, controlVariate: false },
+    { name: "control-variate", antithetic: false, controlVariate: true },
+    { name: "antithetic with control variate", antithetic: true, controlVariate: true }
+  ];
+
+  for (const { name, antithetic, controlVariate } of variants) {
+    it.each(cases)(`reproduces Black-Scholes with ${name} paths (K = $strike, call: $isCall)`, ({ strike, isCall }) => {
+      const result = calculateMonteCarloPremium(
+        SPOT, strike, TIME, VOLATILITY, RATE, isCall,
+        { paths: 20000, steps: 1, seed: 42, antithetic },
+        controlVariate,
+        YIELD
+      );
+      expectToMatch(result, calculateOptionPremium(SPOT, strike, TIME, VOLATILITY, RATE, isCall, YIELD));
+    });
+  }
+
+  it("narrows the standard error with variance reduction", () => {
+    const run = (antithetic: boolean, controlVariate: boolean) => calculateMonteCarloPremium(
+      SPOT, 100, TIME, VOLATILITY, RATE, true, { paths: 20000, steps: 1, seed: 11, antithetic }, controlVariate, YIELD
+    ).standardError;
+    const plain = run(false, false);
+    expect(run(true, false)).toBeLessThan(plain);
+    expect(run(false, true)).toBeLessThan(plain);
+  });
+
+  it("gives the same price for the same seed", () => {
+    const settings = { paths: 5000, steps: 1, seed: 3, antithetic: true };
+    expect(calculateMonteCarloPremium(SPOT, 100, TIME, VOLATILITY, RATE, true, settings))
+      .toEqual(calculateMonteCarloPremium(SPOT, 100, TIME, VOLATILITY, RATE, true, settings));
+  });
+});
+
+describe("simulateOptionPrice", () => {
+  it("reproduces Black-Scholes when paths are simulated in many steps", () => {
+    const result = simulateOptionPrice(
+      SPOT, TIME, VOLATILITY, RATE, vanillaPayoff(100, true),
+      { paths: 10000, steps: 50, seed: 21, antithetic: true },
+      YIELD
+    );
+    expectToMatch(result, calculateOptionPremium(SPOT, 100, TIME, VOLATILITY, RATE, true, YIELD));
+  });
+
+  it("returns a zero result for invalid inputs", () => {
+    const result = simulateOptionPrice(SPOT, 0, VOLATILITY, RATE, vanillaPayoff(100, true), {
+      paths: 1000, steps: 1, seed: 1, antithetic: false
+    });
+    expect(result).toEqual({ price: 0, standardError: 0, confidenceInterval: [0, 0] });
+  });
+});
+
+describe("calculateBarrierMonteCarloPremium", () => {
+  it("counts monitoring dates back from expiry", () => {
+    expect(countMonitoringDates(10 / 365, 7 / 365)).toBe(2);
+    expect(countMonitoringDates(1, 1 / 365)).toBe(365);
+    expect(countMonitoringDates(5, 0)).toBe(1825);
+  });
+
+  it("checks the barrier on the monitoring dates only", () => {
+    // Weekly checks over 10 days fall on days 3 and 10, which a daily path can check directly
+    const time = 10 / 365;
+    const result = calculateBarrierMonteCarloPremium(
+      SPOT, 100, time, VOLATILITY, RATE, true, "down-and-out", 97, 0, YIELD, 7 / 365, 20000, 42
+    );
+    const reference = simulateOptionPrice(
+      SPOT, time, VOLATILITY, RATE,
+      (prices) => prices[3] <= 97 || prices[10] <= 97 ? 0 : Math.max(0, prices[10] - 100),
+      { paths: 20000, steps: 10, seed: 7, antithetic: false },
+      YIELD
+    );
+    const combinedError = Math.hypot(result.standardError, reference.standardError);
+    expect(Math.abs(result.price - reference.price)).toBeLessThan(3 * combinedError);
+  });
+
+  it("shifts the barrier when there are more monitoring dates than it simulates", () => {
+    // Five years of daily checks
+    expect(countMonitoringDates(5, 1 / 365)).toBeGreaterThan(MAX_MONITORING_DATES);
+    const result = calculateBarrierMonteCarloPremium(
+      SPOT, 100, 5, VOLATILITY, RATE, true, "up-and-out", 200, 0, YIELD, 1 / 365, 10000, 42
+    );
+    const expected = calculateBarrierPremium(SPOT, 100, 5, VOLATILITY, RATE, true, "up-and-out", 200, 0, YIELD, 1 / 365);
+    expect(Math.abs(result.price - expected)).toBeLessThan(3 * result.standardError);
+  });
+});
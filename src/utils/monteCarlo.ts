@@ -0,0 +1,513 @@
+/**
+ * Monte Carlo Option Pricing
+ *
+ * This utility simulates geometric Brownian motion paths, optionally with Merton
+ * jumps, using a seeded random number generator so results are reproducible. It
+ * reports the price together with its standard error and a 95% confidence
+ * interval, and supports antithetic and control variates.
+ */
+
+import { AverageType, AveragingSchedule, calculateGeometricAsianPremium } from "./asianOptions";
+import { adjustBarrierForDiscreteMonitoring, BarrierType } from "./blackScholes";
+import { expectedJumpSize, JumpParameters } from "./jumpDiffusion";
+import { createRandomGenerator } from "./random";
+import { TwoAssetPayoff, TwoAssetUnderlying } from "./twoAssetOptions";
+
+export interface MonteCarloResult {
+  price: number;          // Mean discounted payoff
+  standardError: number;  // Standard error of the mean
+  confidenceInterval: [number, number];  // 95% confidence interval for the price
+}
+
+// Payoff at expiry of one simulated path; prices[0] is the spot price and
+// prices[i] the price after i time steps
+export type PathPayoff = (prices: Float64Array) => number;
+
+export interface MonteCarloSettings {
+  paths: number;           // Number of simulated paths
+  steps: number;           // Time steps per path
+  seed: number;            // Random seed, so repeated runs give the same price
+  antithetic: boolean;     // Pair every path with its mirror image to cancel noise
+  jumps?: JumpParameters;  // Merton jumps on top of the diffusion; plain GBM when omitted
+  controlVariate?: {
+    payoff: PathPayoff;    // Payoff with a known price, evaluated on the same paths
+    price: number;         // Its exact discounted price
+  };
+}
+
+// Two-sided 95% quantile of the standard normal distribution
+const CONFIDENCE_95 = 1.959963984540054;
+
+// Most time steps simulated per path, to keep the calculator responsive
+const MAX_STEPS = 1000;
+
+// Most barrier monitoring dates simulated per path; more frequent checks are
+// simulated on fewer dates with a shifted barrier
+export const MAX_MONITORING_DATES = MAX_STEPS;
+
+// Mean and standard error of a set of discounted payoffs
+function summarize(sum: number, sumOfSquares: number, count: number): MonteCarloResult {
+  const mean = sum / count;
+  const variance = Math.max(0, sumOfSquares / count - mean * mean);
+  const standardError = Math.sqrt(variance / count);
+  return {
+    price: mean,
+    standardError,
+    confidenceInterval: [mean - CONFIDENCE_95 * standardError, mean + CONFIDENCE_95 * standardError]
+  };
+}
+
+// Control-variate estimate: values - β (controls - controlPrice), with the
+// variance-minimizing β = Cov(value, control) / Var(control)
+function summarizeWithControl(values: Float64Array, controls: Float64Array, controlPrice: number): MonteCarloResult {
+  const count = values.length;
+  let valueMean = 0;
+  let controlMean = 0;
+  for (let i = 0; i < count; i++) {
+    valueMean += values[i];
+    controlMean += controls[i];
+  }
+  valueMean /= count;
+  controlMean /= count;
+
+  let covariance = 0;
+  let controlVariance = 0;
+  for (let i = 0; i < count; i++) {
+    covariance += (values[i] - valueMean) * (controls[i] - controlMean);
+    controlVariance += (controls[i] - controlMean) ** 2;
+  }
+  const beta = controlVariance > 0 ? covariance / controlVariance : 0;
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < count; i++) {
+    const value = values[i] - beta * (controls[i] - controlPrice);
+    sum += value;
+    sumOfSquares += value * value;
+  }
+  return summarize(sum, sumOfSquares, count);
+}
+
+// Monte Carlo price of a single-barrier option.
+// With a monitoring interval the barrier is checked only on the monitoring dates,
+// counted back from expiry, and the paths step from one date to the next. Beyond
+// MAX_MONITORING_DATES dates the paths step on evenly spaced coarser dates instead,
+// with the barrier moved by the Broadie-Glasserman-Kou shift between the two
+// intervals. Without an interval, a continuously monitored barrier is approximated
+// by correcting each step with the Brownian-bridge probability that the path
+// crossed the barrier between two simulated prices.
+export function calculateBarrierMonteCarloPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  barrierType: BarrierType,
+  barrierLevel: number,  // Price at which the option knocks in or out
+  rebate = 0,            // Cash rebate for a knock-out that is hit or a knock-in that is not
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  monitoringInterval = 0, // Time between barrier checks in years, 0 for continuous
+  paths = 10000,         // Number of simulated paths
+  seed = 42              // Random seed, so repeated runs give the same price
+): MonteCarloResult {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || barrierLevel <= 0 || paths < 2) {
+    return { price: 0, standardError: 0, confidenceInterval: [0, 0] };
+  }
+
+  const isDown = barrierType.startsWith("down");
+  const isKnockIn = barrierType.endsWith("in");
+  const isContinuous = monitoringInterval <= 0;
+
+  // Continuous barriers are stepped about daily. The first monitoring date comes sooner
+  // than one interval from now when the expiry is not a whole number of intervals away.
+  const monitoringDates = countMonitoringDates(timeToExpiry, monitoringInterval);
+  const isThinned = !isContinuous && monitoringDates > MAX_MONITORING_DATES;
+  const steps = Math.min(MAX_MONITORING_DATES, monitoringDates);
+  const interval = isContinuous || isThinned ? timeToExpiry / steps : monitoringInterval;
+  const firstInterval = timeToExpiry - (steps - 1) * interval;
+  const checkedLevel = isThinned
+    ? barrierLevel * adjustBarrierForDiscreteMonitoring(barrierLevel, barrierType, volatility, monitoringInterval) /
+      adjustBarrierForDiscreteMonitoring(barrierLevel, barrierType, volatility, interval)
+    : barrierLevel;
+
+  const growth = riskFreeRate - dividendYield - 0.5 * volatility * volatility;
+  const diffusion = volatility * Math.sqrt(interval);
+  const firstDiffusion = volatility * Math.sqrt(firstInterval);
+  const logBarrier = Math.log(checkedLevel);
+  const expiryDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const random = createRandomGenerator(seed);
+
+  const isBreached = (logPrice: number) => isDown ? logPrice <= logBarrier : logPrice >= logBarrier;
+
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (let path = 0; path < paths; path++) {
+    let logPrice = Math.log(spotPrice);
+    let hitTime = isBreached(logPrice) ? 0 : -1;
+
+    for (let step = 1; step <= steps && hitTime < 0; step++) {
+      const previous = logPrice;
+      logPrice += step === 1
+        ? growth * firstInterval + firstDiffusion * random.normal()
+        : growth * interval + diffusion * random.normal();
+      const time = firstInterval + (step - 1) * interval;
+
+      if (isBreached(logPrice)) {
+        hitTime = time;
+      } else if (isContinuous) {
+        // Probability that the bridge between the two prices touched the barrier
+        const crossing = Math.exp(-2 * (logBarrier - previous) * (logBarrier - logPrice) / (diffusion * diffusion));
+        if (random.uniform() < crossing) {
+          hitTime = time;
+        }
+      }
+    }
+
+    // Paths stop at the hit; a knocked-in option still needs its price at expiry,
+    // which GBM lets us draw in a single step
+    const remaining = timeToExpiry - Math.max(0, hitTime);
+    if (hitTime >= 0 && isKnockIn && remaining > 0) {
+      logPrice += growth * remaining + volatility * Math.sqrt(remaining) * random.normal();
+    }
+
+    const terminalPrice = Math.exp(logPrice);
+    const vanillaPayoff = isCall
+      ? Math.max(0, terminalPrice - strikePrice)
+      : Math.max(0, strikePrice - terminalPrice);
+
+    let value: number;
+    if (isKnockIn) {
+      value = (hitTime >= 0 ? vanillaPayoff : rebate) * expiryDiscount;
+    } else {
+      value = hitTime >= 0
+        ? rebate * Math.exp(-riskFreeRate * hitTime)
+        : vanillaPayoff * expiryDiscount;
+    }
+
+    sum += value;
+    sumOfSquares += value * value;
+  }
+
+  return summarize(sum, sumOfSquares, paths);
+}
+
+// Number of barrier checks before expiry: one a day for a continuous barrier, else
+// one per monitoring interval counted back from expiry
+export function countMonitoringDates(
+  timeToExpiry: number,      // Time to expiry in years
+  monitoringInterval: number // Time between barrier checks in years, 0 for continuous
+): number {
+  const interval = monitoringInterval > 0 ? monitoringInterval : 1 / 365;
+  // Allow for rounding when the expiry is a whole number of intervals away
+  return Math.max(1, Math.ceil(timeToExpiry / interval - 1e-9));
+}
+
+// Monte Carlo price of an arithmetic-average Asian option, simulated on the
+// fixing dates. The geometric-average option on the same paths is used as a
+// control variate, since its exact price is known in closed form.
+export function calculateAsianMonteCarloPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price (ignored for average-strike options)
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Implied volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  averageType: AverageType,
+  schedule: AveragingSchedule,
+  dividendYield = 0,     // Continuous dividend / carry yield as a decimal
+  paths = 10000,         // Number of simulated paths
+  seed = 42              // Random seed, so repeated runs give the same price
+): MonteCarloResult {
+  // Check for invalid inputs
+  const fixingTimes = schedule.fixingTimes;
+  const totalCount = schedule.fixedCount + fixingTimes.length;
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || totalCount === 0 || paths < 2) {
+    return { price: 0, standardError: 0, confidenceInterval: [0, 0] };
+  }
+
+  const driftRate = riskFreeRate - dividendYield - 0.5 * volatility * volatility;
+  const expiryDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const fixedSum = schedule.fixedCount * schedule.fixedAverage;
+  const fixedLogSum = schedule.fixedCount > 0 ? schedule.fixedCount * Math.log(schedule.fixedAverage) : 0;
+  const random = createRandomGenerator(seed);
+
+  // The last fixing may fall before expiry, in which case S_T needs one more step
+  const lastFixing = fixingTimes.length > 0 ? fixingTimes[fixingTimes.length - 1] : 0;
+
+  const payoff = (average: number, terminalPrice: number) => {
+    if (averageType === "average-price") {
+      return isCall ? Math.max(0, average - strikePrice) : Math.max(0, strikePrice - average);
+    }
+    return isCall ? Math.max(0, terminalPrice - average) : Math.max(0, average - terminalPrice);
+  };
+
+  const arithmeticValues = new Float64Array(paths);
+  const geometricValues = new Float64Array(paths);
+
+  for (let path = 0; path < paths; path++) {
+    let logPrice = Math.log(spotPrice);
+    let time = 0;
+    let sum = fixedSum;
+    let logSum = fixedLogSum;
+
+    for (const fixingTime of fixingTimes) {
+      const dt = fixingTime - time;
+      logPrice += driftRate * dt + volatility * Math.sqrt(dt) * random.normal();
+      sum += Math.exp(logPrice);
+      logSum += logPrice;
+      time = fixingTime;
+    }
+
+    if (timeToExpiry > lastFixing) {
+      const dt = timeToExpiry - lastFixing;
+      logPrice += driftRate * dt + volatility * Math.sqrt(dt) * random.normal();
+    }
+
+    const terminalPrice = Math.exp(logPrice);
+    arithmeticValues[path] = payoff(sum / totalCount, terminalPrice) * expiryDiscount;
+    geometricValues[path] = payoff(Math.exp(logSum / totalCount), terminalPrice) * expiryDiscount;
+  }
+
+  const geometricPrice = calculateGeometricAsianPremium(
+    spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, averageType, schedule, dividendYield
+  );
+
+  return summarizeWithControl(arithmeticValues, geometricValues, geometricPrice);
+}
+
+// Payoff of a vanilla option on the final simulated price
+export function vanillaPayoff(strikePrice: number, isCall: boolean): PathPayoff {
+  return (prices) => {
+    const terminalPrice = prices[prices.length - 1];
+    return isCall ? Math.max(0, terminalPrice - strikePrice) : Math.max(0, strikePrice - terminalPrice);
+  };
+}
+
+// The final price itself, whose discounted value S e^(-qT) is known under both processes
+export const terminalPricePayoff: PathPayoff = (prices) => prices[prices.length - 1];
+
+// General Monte Carlo pricer for any path-dependent payoff paid at expiry.
+// Paths follow GBM, plus compensated Merton jumps when jump parameters are given.
+export function simulateOptionPrice(
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Diffusion volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  payoff: PathPayoff,
+  settings: MonteCarloSettings,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): MonteCarloResult {
+  // Check for invalid inputs
+  const { paths, seed, antithetic, jumps, controlVariate } = settings;
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || paths < 2) {
+    return { price: 0, standardError: 0, confidenceInterval: [0, 0] };
+  }
+
+  const steps = Math.min(MAX_STEPS, Math.max(1, Math.round(settings.steps)));
+  const dt = timeToExpiry / steps;
+  const diffusion = volatility * Math.sqrt(dt);
+  const jumpProbability = jumps ? Math.exp(-jumps.intensity * dt) : 1;
+  const compensator = jumps ? jumps.intensity * expectedJumpSize(jumps) : 0;
+  const drift = (riskFreeRate - dividendYield - compensator - 0.5 * volatility * volatility) * dt;
+  const expiryDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const random = createRandomGenerator(seed);
+
+  // Antithetic pairs are averaged into one sample, so the standard error stays honest
+  const samples = antithetic ? Math.max(1, Math.floor(paths / 2)) : paths;
+  const values = new Float64Array(samples);
+  const controls = new Float64Array(samples);
+
+  const diffusionShocks = new Float64Array(steps);
+  const jumpCounts = new Float64Array(steps);
+  const jumpShocks = new Float64Array(steps);
+  const prices = new Float64Array(steps + 1);
+
+  // Build a path from the shocks, mirrored when sign is -1, and value it
+  const runPath = (sign: number) => {
+    let logPrice = Math.log(spotPrice);
+    prices[0] = spotPrice;
+    for (let step = 0; step < steps; step++) {
+      logPrice += drift + diffusion * sign * diffusionShocks[step];
+      if (jumps && jumpCounts[step] > 0) {
+        logPrice += jumpCounts[step] * jumps.meanJump +
+          jumps.jumpVolatility * Math.sqrt(jumpCounts[step]) * sign * jumpShocks[step];
+      }
+      prices[step + 1] = Math.exp(logPrice);
+    }
+    return {
+      value: payoff(prices) * expiryDiscount,
+      control: controlVariate ? controlVariate.payoff(prices) * expiryDiscount : 0
+    };
+  };
+
+  for (let sample = 0; sample < samples; sample++) {
+    for (let step = 0; step < steps; step++) {
+      diffusionShocks[step] = random.normal();
+      if (jumps) {
+        // Poisson number of jumps in the step, by inversion
+        let count = 0;
+        let probability = jumpProbability;
+        let cumulative = probability;
+        const draw = random.uniform();
+        while (draw > cumulative && count < 100) {
+          count++;
+          probability *= jumps.intensity * dt / count;
+          cumulative += probability;
+        }
+        jumpCounts[step] = count;
+        jumpShocks[step] = count > 0 ? random.normal() : 0;
+      }
+    }
+
+    const first = runPath(1);
+    if (antithetic) {
+      const mirror = runPath(-1);
+      values[sample] = 0.5 * (first.value + mirror.value);
+      controls[sample] = 0.5 * (first.control + mirror.control);
+    } else {
+      values[sample] = first.value;
+      controls[sample] = first.control;
+    }
+  }
+
+  if (controlVariate) {
+    return summarizeWithControl(values, controls, controlVariate.price);
+  }
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let sample = 0; sample < samples; sample++) {
+    sum += values[sample];
+    sumOfSquares += values[sample] * values[sample];
+  }
+  return summarize(sum, sumOfSquares, samples);
+}
+
+// Monte Carlo price of a European vanilla option, with the final price as an
+// optional control variate
+export function calculateMonteCarloPremium(
+  spotPrice: number,     // Current price of the underlying asset
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Diffusion volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean,       // true for call option, false for put option
+  settings: Omit<MonteCarloSettings, "controlVariate">,
+  useControlVariate = true,
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): MonteCarloResult {
+  if (strikePrice <= 0) {
+    return { price: 0, standardError: 0, confidenceInterval: [0, 0] };
+  }
+
+  return simulateOptionPrice(
+    spotPrice,
+    timeToExpiry,
+    volatility,
+    riskFreeRate,
+    vanillaPayoff(strikePrice, isCall),
+    {
+      ...settings,
+      controlVariate: useControlVariate
+        ? { payoff: terminalPricePayoff, price: spotPrice * Math.exp(-dividendYield * timeToExpiry) }
+        : undefined
+    },
+    dividendYield
+  );
+}
+
+// One simulated outcome: the final price and the undiscounted payoff of its path
+export interface TerminalValueSample {
+  finalPrice: number;
+  payoff: number;
+}
+
+// Simulate GBM paths and record each path's final price and payoff, for plotting
+// payoffs that are not a function of the final price alone
+export function simulateTerminalValues(
+  spotPrice: number,     // Current price of the underlying asset
+  timeToExpiry: number,  // Time to expiry in years
+  volatility: number,    // Volatility as a decimal
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  payoff: PathPayoff,
+  paths: number,         // Number of simulated paths
+  steps: number,         // Time steps per path
+  seed: number,          // Random seed, so repeated runs give the same samples
+  dividendYield = 0      // Continuous dividend / carry yield as a decimal
+): TerminalValueSample[] {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || volatility <= 0 || paths < 1) {
+    return [];
+  }
+
+  const stepCount = Math.min(MAX_STEPS, Math.max(1, Math.round(steps)));
+  const dt = timeToExpiry / stepCount;
+  const diffusion = volatility * Math.sqrt(dt);
+  const drift = (riskFreeRate - dividendYield - 0.5 * volatility * volatility) * dt;
+  const random = createRandomGenerator(seed);
+  const prices = new Float64Array(stepCount + 1);
+  const samples: TerminalValueSample[] = [];
+
+  for (let path = 0; path < paths; path++) {
+    let logPrice = Math.log(spotPrice);
+    prices[0] = spotPrice;
+    for (let step = 0; step < stepCount; step++) {
+      logPrice += drift + diffusion * random.normal();
+      prices[step + 1] = Math.exp(logPrice);
+    }
+    samples.push({ finalPrice: prices[stepCount], payoff: payoff(prices) });
+  }
+  return samples;
+}
+
+// Monte Carlo price of a European payoff on two correlated lognormal assets. Only the
+// final prices matter, so each path is a single exact step.
+export function simulateTwoAssetPrice(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  timeToExpiry: number,  // Time to expiry in years
+  correlation: number,   // Correlation of the two assets' returns
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  payoff: TwoAssetPayoff,
+  settings: Pick<MonteCarloSettings, "paths" | "seed" | "antithetic">
+): MonteCarloResult {
+  // Check for invalid inputs
+  const { paths, seed, antithetic } = settings;
+  if (first.spotPrice <= 0 || second.spotPrice <= 0 || first.volatility <= 0 || second.volatility <= 0 ||
+    timeToExpiry <= 0 || Math.abs(correlation) > 1 || paths < 2) {
+    return { price: 0, standardError: 0, confidenceInterval: [0, 0] };
+  }
+
+  const sqrtT = Math.sqrt(timeToExpiry);
+  const firstDrift = (riskFreeRate - first.dividendYield - 0.5 * first.volatility ** 2) * timeToExpiry;
+  const secondDrift = (riskFreeRate - second.dividendYield - 0.5 * second.volatility ** 2) * timeToExpiry;
+  const independentWeight = Math.sqrt(1 - correlation * correlation);
+  const expiryDiscount = Math.exp(-riskFreeRate * timeToExpiry);
+  const random = createRandomGenerator(seed);
+
+  // Correlate the second shock with the first by a Cholesky factor
+  const valueFor = (firstShock: number, secondShock: number) => {
+    const correlatedShock = correlation * firstShock + independentWeight * secondShock;
+    const firstPrice = first.spotPrice * Math.exp(firstDrift + first.volatility * sqrtT * firstShock);
+    const secondPrice = second.spotPrice * Math.exp(secondDrift + second.volatility * sqrtT * correlatedShock);
+    return payoff(firstPrice, secondPrice) * expiryDiscount;
+  };
+
+  // Antithetic pairs are averaged into one sample, so the standard error stays honest
+  const samples = antithetic ? Math.max(1, Math.floor(paths / 2)) : paths;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let sample = 0; sample < samples; sample++) {
+    const firstShock = random.normal();
+    const secondShock = random.normal();
+    const value = antithetic
+      ? 0.5 * (valueFor(firstShock, secondShock) + valueFor(-firstShock, -secondShock))
+      : valueFor(firstShock, secondShock);
+    sum += value;
+    sumOfSquares += value * value;
+  }
+  return summarize(sum, sumOfSquares, samples);
+}
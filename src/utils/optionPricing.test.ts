@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateBarrierPremium,
+  calculateBlack76Premium,
+  calculateDigitalPremium,
+  calculateGreeks,
+  calculateOptionPremium,
+  calculateQuantoPremium
+} from "./blackScholes";
+import { calculateChooserPremium, calculateCompoundPremium, calculateLookbackPremium } from "./exoticOptions";
+import { calculateGarmanKohlhagenPremium } from "./fxOptions";
+import { OptionSpecification, priceOption, PricingInputs, simulatePathPayoffs } from "./optionPricing";
+
+const INPUTS: PricingInputs = {
+  spotPrice: 100,
+  strikePrice: 105,
+  timeToExpiry: 0.5,
+  volatility: 0.3,
+  riskFreeRate: 0.05,
+  isCall: true,
+  underlying: "spot",
+  carryYield: 0.02,
+  dividendYield: 0.02
+};
+
+describe("priceOption", () => {
+  it("prices a vanilla option on each underlying with its own formula", () => {
+    const spot = priceOption(INPUTS, { kind: "vanilla" });
+    expect(spot.premium).toBe(calculateOptionPremium(100, 105, 0.5, 0.3, 0.05, true, 0.02));
+    expect(spot.greeks).toEqual(calculateGreeks(100, 105, 0.5, 0.3, 0.05, true, 0.02));
+    expect(spot.foreignRho).toBeNull();
+
+    const future = priceOption({ ...INPUTS, underlying: "future", carryYield: 0.05 }, { kind: "vanilla" });
+    expect(future.premium).toBe(calculateBlack76Premium(100, 105, 0.5, 0.3, 0.05, true));
+
+    const fx = priceOption({ ...INPUTS, underlying: "fx", carryYield: 0.03 }, { kind: "vanilla" });
+    expect(fx.premium).toBe(calculateGarmanKohlhagenPremium(100, 105, 0.5, 0.3, 0.05, 0.03, true));
+    expect(fx.foreignRho).not.toBeNull();
+  });
+
+  it.each<[string, OptionSpecification, number]>([
+    ["digital", { kind: "digital", digitalType: "cash-or-nothing", cashPayout: 10 },
+      calculateDigitalPremium(100, 105, 0.5, 0.3, 0.05, true, "cash-or-nothing", 10, 0.02)],
+    ["barrier", {
+      kind: "barrier",
+      engine: "analytic",
+      barrier: { type: "down-and-out", level: 85, rebate: 1, monitoringInterval: 1 / 365 },
+      gridSize: { spotSteps: 100, timeSteps: 100 },
+      paths: 1000
+    }, calculateBarrierPremium(100, 105, 0.5, 0.3, 0.05, true, "down-and-out", 85, 1, 0.02, 1 / 365)],
+    ["lookback", { kind: "lookback", strikeType: "floating", runningMinimum: 90, runningMaximum: 110 },
+      calculateLookbackPremium(100, 105, 0.5, 0.3, 0.05, true, "floating", 90, 110, 0.02)],
+    ["chooser", { kind: "chooser", chooseTime: 0.1 }, calculateChooserPremium(100, 105, 0.5, 0.3, 0.05, 0.1, 0.02)],
+    ["compound", { kind: "compound", underlyingIsCall: false, compoundStrike: 5, compoundExpiry: 0.2 },
+      calculateCompoundPremium(100, 105, 0.5, 0.3, 0.05, true, false, 5, 0.2, 0.02)],
+    ["quanto", { kind: "quanto", payoutRate: 0.03, fxVolatility: 0.1, correlation: -0.3, fxRate: 1.1 },
+      calculateQuantoPremium(100, 105, 0.5, 0.3, 0.05, true, 0.03, 0.1, -0.3, 1.1, 0.02)]
+  ])("prices a %s option with its own formula", (_, specification, expected) => {
+    expect(priceOption(INPUTS, specification).premium).toBe(expected);
+  });
+
+  it("reports the simulation error and the closed form for Monte Carlo", () => {
+    const result = priceOption(INPUTS, {
+      kind: "monte-carlo",
+      settings: { paths: 20000, steps: 1, seed: 42, antithetic: true },
+      controlVariate: true
+    });
+    expect(result.simulation).not.toBeNull();
+    expect(result.closedFormPremium).toBeCloseTo(calculateOptionPremium(100, 105, 0.5, 0.3, 0.05, true, 0.02), 12);
+    expect(Math.abs(result.premium - (result.closedFormPremium ?? 0))).toBeLessThan(3 * (result.simulation?.standardError ?? 0));
+  });
+
+  it("adds the early-exercise premium for American options only", () => {
+    const put = { ...INPUTS, isCall: false };
+    const american = priceOption(put, {
+      kind: "american",
+      engine: "binomial",
+      settings: { treeSteps: 200, gridSize: { spotSteps: 200, timeSteps: 200 } }
+    });
+    expect(american.earlyExercisePremium).toBeGreaterThan(0);
+    expect(priceOption(put, { kind: "vanilla" }).earlyExercisePremium).toBeNull();
+  });
+});
+
+describe("simulatePathPayoffs", () => {
+  it("simulates lookback payoffs that are never negative", () => {
+    const samples = simulatePathPayoffs(
+      INPUTS, { kind: "lookback", strikeType: "floating", runningMinimum: 0, runningMaximum: 0 }, 500, 50, 1
+    );
+    expect(samples).toHaveLength(500);
+    expect(samples.every((sample) => sample.payoff >= 0)).toBe(true);
+  });
+
+  it("picks the leg in the money when the choice date is at expiry", () => {
+    const samples = simulatePathPayoffs(INPUTS, { kind: "chooser", chooseTime: 1 }, 500, 50, 1);
+    expect(samples.every((sample) => sample.payoff === Math.abs(sample.finalPrice - INPUTS.strikePrice))).toBe(true);
+  });
+
+  it("returns no samples for payoffs that depend on the final price alone", () => {
+    expect(simulatePathPayoffs(INPUTS, { kind: "vanilla" }, 500, 50, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Single-Asset Option Pricing
+ *
+ * This utility prices any option the single-asset calculator can describe: a
+ * specification names the model or payoff style and carries its settings, and
+ * the matching premium and Greeks functions are picked for it. Path-dependent
+ * payoffs can also be simulated for the payoff diagram.
+ */
+
+import {
+  calculateOptionPremium,
+  calculateGreeks,
+  calculateBlack76Premium,
+  calculateBlack76Greeks,
+  calculateAmericanApproximationGreeks,
+  calculateDigitalPremium,
+  calculateDigitalGreeks,
+  calculateBarrierPremium,
+  calculateBarrierGreeks,
+  calculateQuantoPremium,
+  calculateQuantoGreeks,
+  DigitalType
+} from "./blackScholes";
+import { AmericanEngine, AmericanEngineSettings, calculateAmericanPremium, calculateEarlyExercisePremium } from "./americanOptions";
+import {
+  calculateGeometricAsianPremium,
+  calculateArithmeticAsianPremium,
+  calculateAsianGreeks,
+  AveragingSchedule,
+  AverageType
+} from "./asianOptions";
+import { calculateBachelierPremium, calculateBachelierGreeks } from "./bachelierModel";
+import {
+  calculateLookbackPremium,
+  calculateLookbackGreeks,
+  calculateChooserPremium,
+  calculateChooserGreeks,
+  calculateCompoundPremium,
+  calculateCompoundGreeks,
+  ChooserPutTerms,
+  LookbackStrike
+} from "./exoticOptions";
+import { calculatePdePremium, calculatePdeGreeks, GridBarrier, GridSize } from "./finiteDifference";
+import { calculateGarmanKohlhagenPremium, calculateGarmanKohlhagenGreeks } from "./fxOptions";
+import { calculateHestonPremium, calculateHestonGreeks, HestonParameters } from "./hestonModel";
+import { calculateMertonPremium, calculateMertonGreeks, JumpParameters } from "./jumpDiffusion";
+import { calculateTreeGreeks } from "./latticeModels";
+import {
+  calculateAsianMonteCarloPremium,
+  calculateBarrierMonteCarloPremium,
+  calculateMonteCarloPremium,
+  simulateTerminalValues,
+  MonteCarloResult,
+  MonteCarloSettings,
+  PathPayoff,
+  TerminalValueSample
+} from "./monteCarlo";
+import {
+  calculateEverlastingPremium,
+  calculateEverlastingGreeks,
+  calculatePowerPerpetualPremium,
+  calculatePowerPerpetualGreeks
+} from "./perpetualOptions";
+
+// Underlyings: spot assets (Black-Scholes-Merton), futures (Black-76) and FX rates (Garman-Kohlhagen)
+export type UnderlyingType = "spot" | "future" | "fx";
+
+// Pricing engines available for barrier and Asian options
+export type BarrierEngine = "analytic" | "monte-carlo" | "pde";
+export type AsianEngine = "geometric" | "turnbull-wakeman" | "monte-carlo";
+
+export interface PricingInputs {
+  spotPrice: number;          // Current price of the underlying asset
+  strikePrice: number;        // Strike price of the option
+  timeToExpiry: number;       // Time to expiry in years (the funding period for perpetuals)
+  volatility: number;         // Implied volatility as a decimal
+  riskFreeRate: number;       // Risk-free interest rate as a decimal
+  isCall: boolean;            // true for call option, false for put option
+  underlying: UnderlyingType;
+  carryYield: number;         // Yield of the underlying: the dividend yield, the foreign rate or, for futures, the risk-free rate
+  dividendYield: number;      // Dividend yield of a spot asset as a decimal
+}
+
+// What is priced, and with which model or engine. Models other than Black-Scholes,
+// perpetuals, quantos and American exercise all apply to vanilla options only.
+export type OptionSpecification =
+  | { kind: "vanilla" }
+  | { kind: "heston"; parameters: HestonParameters }
+  | { kind: "bachelier"; normalVolatility: number }
+  | { kind: "merton"; jumps: JumpParameters }
+  | { kind: "monte-carlo"; settings: MonteCarloSettings; controlVariate: boolean }
+  | { kind: "everlasting"; fundingPeriod: number }
+  | { kind: "power-perpetual"; power: number; fundingPeriod: number }
+  | { kind: "american"; engine: AmericanEngine; settings: AmericanEngineSettings }
+  | { kind: "quanto"; payoutRate: number; fxVolatility: number; correlation: number; fxRate: number }
+  | { kind: "digital"; digitalType: DigitalType; cashPayout: number }
+  | { kind: "barrier"; engine: BarrierEngine; barrier: GridBarrier; gridSize: GridSize; paths: number }
+  | {
+      kind: "asian";
+      engine: AsianEngine;
+      averageType: AverageType;
+      scheduleFor: (timeToExpiry: number) => AveragingSchedule;
+      paths: number;
+    }
+  | { kind: "lookback"; strikeType: LookbackStrike; runningMinimum: number; runningMaximum: number }
+  | { kind: "chooser"; chooseTime: number; putTerms?: ChooserPutTerms }
+  | { kind: "compound"; underlyingIsCall: boolean; compoundStrike: number; compoundExpiry: number };
+
+export interface PricingResult {
+  premium: number;
+  greeks: ReturnType<typeof calculateGreeks>;
+  foreignRho: number | null;                // Sensitivity to the foreign rate, for FX underlyings
+  simulation: MonteCarloResult | null;      // Error estimate of a simulated premium
+  closedFormPremium: number | null;         // Exact price of the simulated or jump process without simulation or jumps
+  earlyExercisePremium: number | null;      // Value of early exercise, for American options
+}
+
+// Premium and Greeks of a European vanilla option on the given underlying
+function priceVanilla(inputs: PricingInputs): PricingResult {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall } = inputs;
+  const result = { foreignRho: null, simulation: null, closedFormPremium: null, earlyExercisePremium: null };
+
+  if (inputs.underlying === "future") {
+    return {
+      ...result,
+      premium: calculateBlack76Premium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall),
+      greeks: calculateBlack76Greeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall)
+    };
+  }
+  if (inputs.underlying === "fx") {
+    const { foreignRho, ...greeks } = calculateGarmanKohlhagenGreeks(
+      spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, inputs.carryYield, isCall
+    );
+    return {
+      ...result,
+      premium: calculateGarmanKohlhagenPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, inputs.carryYield, isCall),
+      greeks,
+      foreignRho
+    };
+  }
+  return {
+    ...result,
+    premium: calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, inputs.dividendYield),
+    greeks: calculateGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, inputs.dividendYield)
+  };
+}
+
+// Price an option and find its Greeks. Simulated premiums take their Greeks from
+// the closed form of the same payoff, which is smooth.
+export function priceOption(inputs: PricingInputs, specification: OptionSpecification): PricingResult {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield } = inputs;
+  const result = { foreignRho: null, simulation: null, closedFormPremium: null, earlyExercisePremium: null };
+
+  switch (specification.kind) {
+    case "vanilla":
+      return priceVanilla(inputs);
+
+    case "heston":
+      return {
+        ...result,
+        premium: calculateHestonPremium(spotPrice, strikePrice, timeToExpiry, riskFreeRate, isCall, specification.parameters, carryYield),
+        greeks: calculateHestonGreeks(spotPrice, strikePrice, timeToExpiry, riskFreeRate, isCall, specification.parameters, carryYield)
+      };
+
+    case "bachelier": {
+      const { normalVolatility } = specification;
+      return {
+        ...result,
+        premium: calculateBachelierPremium(spotPrice, strikePrice, timeToExpiry, normalVolatility, riskFreeRate, isCall, carryYield),
+        greeks: calculateBachelierGreeks(spotPrice, strikePrice, timeToExpiry, normalVolatility, riskFreeRate, isCall, carryYield)
+      };
+    }
+
+    case "merton": {
+      const { jumps } = specification;
+      return {
+        ...result,
+        premium: calculateMertonPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, jumps, carryYield),
+        greeks: calculateMertonGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, jumps, carryYield),
+        // Same diffusion without jumps, so the jump risk shows as the difference
+        closedFormPremium: calculateOptionPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield)
+      };
+    }
+
+    case "monte-carlo": {
+      const { settings } = specification;
+      const simulation = calculateMonteCarloPremium(
+        spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, settings, specification.controlVariate, carryYield
+      );
+      // Closed form of the simulated process, for its Greeks and to show the simulation error
+      const closedForm = settings.jumps
+        ? priceOption(inputs, { kind: "merton", jumps: settings.jumps })
+        : priceVanilla(inputs);
+      return {
+        ...closedForm,
+        premium: simulation.price,
+        simulation,
+        closedFormPremium: closedForm.premium
+      };
+    }
+
+    case "everlasting": {
+      const { fundingPeriod } = specification;
+      return {
+        ...result,
+        premium: calculateEverlastingPremium(spotPrice, strikePrice, volatility, riskFreeRate, isCall, fundingPeriod, carryYield),
+        greeks: calculateEverlastingGreeks(spotPrice, strikePrice, volatility, riskFreeRate, isCall, fundingPeriod, carryYield)
+      };
+    }
+
+    case "power-perpetual": {
+      const { power, fundingPeriod } = specification;
+      return {
+        ...result,
+        premium: calculatePowerPerpetualPremium(spotPrice, volatility, riskFreeRate, power, fundingPeriod, carryYield),
+        greeks: calculatePowerPerpetualGreeks(spotPrice, volatility, riskFreeRate, power, fundingPeriod, carryYield)
+      };
+    }
+
+    case "american": {
+      const { engine, settings } = specification;
+      const premium = calculateAmericanPremium(
+        engine, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, settings, carryYield
+      );
+      let greeks: ReturnType<typeof calculateGreeks>;
+      if (engine === "binomial" || engine === "trinomial") {
+        greeks = calculateTreeGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, true, settings.treeSteps, carryYield, engine
+        );
+      } else if (engine === "crank-nicolson") {
+        greeks = calculatePdeGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, true, settings.gridSize, carryYield
+        );
+      } else {
+        greeks = calculateAmericanApproximationGreeks(
+          engine, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield
+        );
+      }
+      return {
+        ...result,
+        premium,
+        greeks,
+        earlyExercisePremium: calculateEarlyExercisePremium(
+          premium, engine, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, settings, carryYield
+        )
+      };
+    }
+
+    case "quanto": {
+      const { payoutRate, fxVolatility, correlation, fxRate } = specification;
+      const { dividendYield } = inputs;
+      return {
+        ...result,
+        premium: calculateQuantoPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, payoutRate, fxVolatility, correlation, fxRate, dividendYield
+        ),
+        greeks: calculateQuantoGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, payoutRate, fxVolatility, correlation, fxRate, dividendYield
+        )
+      };
+    }
+
+    case "digital": {
+      const { digitalType, cashPayout } = specification;
+      return {
+        ...result,
+        premium: calculateDigitalPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, digitalType, cashPayout, carryYield
+        ),
+        greeks: calculateDigitalGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, digitalType, cashPayout, carryYield
+        )
+      };
+    }
+
+    case "barrier": {
+      const { engine, barrier, gridSize } = specification;
+      if (engine === "pde") {
+        return {
+          ...result,
+          premium: calculatePdePremium(
+            spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, false, gridSize, carryYield, barrier
+          ),
+          greeks: calculatePdeGreeks(
+            spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, false, gridSize, carryYield, barrier
+          )
+        };
+      }
+      const greeks = calculateBarrierGreeks(
+        spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall,
+        barrier.type, barrier.level, barrier.rebate, carryYield, barrier.monitoringInterval
+      );
+      if (engine === "monte-carlo") {
+        const simulation = calculateBarrierMonteCarloPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall,
+          barrier.type, barrier.level, barrier.rebate, carryYield, barrier.monitoringInterval, specification.paths
+        );
+        return { ...result, premium: simulation.price, greeks, simulation };
+      }
+      return {
+        ...result,
+        premium: calculateBarrierPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall,
+          barrier.type, barrier.level, barrier.rebate, carryYield, barrier.monitoringInterval
+        ),
+        greeks
+      };
+    }
+
+    case "asian": {
+      const { engine, averageType, scheduleFor } = specification;
+      const pricer = engine === "geometric" ? calculateGeometricAsianPremium : calculateArithmeticAsianPremium;
+      const schedule = scheduleFor(timeToExpiry);
+      // Monte Carlo prices take their Greeks from the Turnbull-Wakeman approximation
+      const greeks = calculateAsianGreeks(
+        pricer, spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, averageType, scheduleFor, carryYield
+      );
+      if (engine === "monte-carlo") {
+        const simulation = calculateAsianMonteCarloPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, averageType, schedule, carryYield, specification.paths
+        );
+        return { ...result, premium: simulation.price, greeks, simulation };
+      }
+      return {
+        ...result,
+        premium: pricer(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, averageType, schedule, carryYield),
+        greeks
+      };
+    }
+
+    case "lookback": {
+      const { strikeType, runningMinimum, runningMaximum } = specification;
+      return {
+        ...result,
+        premium: calculateLookbackPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, strikeType, runningMinimum, runningMaximum, carryYield
+        ),
+        greeks: calculateLookbackGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, strikeType, runningMinimum, runningMaximum, carryYield
+        )
+      };
+    }
+
+    case "chooser": {
+      const { chooseTime, putTerms } = specification;
+      return {
+        ...result,
+        premium: calculateChooserPremium(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, chooseTime, carryYield, putTerms),
+        greeks: calculateChooserGreeks(spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, chooseTime, carryYield, putTerms)
+      };
+    }
+
+    case "compound": {
+      const { underlyingIsCall, compoundStrike, compoundExpiry } = specification;
+      return {
+        ...result,
+        premium: calculateCompoundPremium(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, underlyingIsCall, compoundStrike, compoundExpiry, carryYield
+        ),
+        greeks: calculateCompoundGreeks(
+          spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, underlyingIsCall, compoundStrike, compoundExpiry, carryYield
+        )
+      };
+    }
+  }
+}
+
+// Simulate the final prices and payoffs of a lookback or chooser option, whose payoff
+// depends on the whole path. Other options return no samples.
+export function simulatePathPayoffs(
+  inputs: PricingInputs,
+  specification: OptionSpecification,
+  paths: number,  // Number of simulated paths
+  steps: number,  // Time steps per path
+  seed: number    // Random seed, so repeated runs give the same samples
+): TerminalValueSample[] {
+  const { spotPrice, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall, carryYield } = inputs;
+  let pathPayoff: PathPayoff;
+  let horizon = timeToExpiry;
+
+  if (specification.kind === "lookback") {
+    const { strikeType, runningMinimum, runningMaximum } = specification;
+    pathPayoff = (prices) => {
+      // Zero extremes mean a new option, which starts from the spot price
+      let low = runningMinimum > 0 ? Math.min(runningMinimum, prices[0]) : prices[0];
+      let high = Math.max(runningMaximum, prices[0]);
+      for (const price of prices) {
+        low = Math.min(low, price);
+        high = Math.max(high, price);
+      }
+      const finalPrice = prices[prices.length - 1];
+      if (strikeType === "floating") {
+        return isCall ? finalPrice - low : high - finalPrice;
+      }
+      return isCall ? Math.max(0, high - strikePrice) : Math.max(0, strikePrice - low);
+    };
+  } else if (specification.kind === "chooser") {
+    // Simulate to the later expiry and pick the leg worth more on the choice date
+    const { chooseTime, putTerms } = specification;
+    const putStrike = putTerms ? putTerms.strike : strikePrice;
+    const putExpiry = putTerms ? putTerms.expiry : timeToExpiry;
+    horizon = Math.max(timeToExpiry, putExpiry);
+    const choice = Math.max(0, Math.min(chooseTime, timeToExpiry, putExpiry));
+    const indexAt = (time: number) => Math.round(time / horizon * steps);
+    // A leg that expires on the choice date is worth its intrinsic value
+    const legValue = (price: number, strike: number, remainingTime: number, isCallLeg: boolean) => remainingTime > 0
+      ? calculateOptionPremium(price, strike, remainingTime, volatility, riskFreeRate, isCallLeg, carryYield)
+      : Math.max(0, isCallLeg ? price - strike : strike - price);
+    pathPayoff = (prices) => {
+      const priceAtChoice = prices[indexAt(choice)];
+      const callValue = legValue(priceAtChoice, strikePrice, timeToExpiry - choice, true);
+      const putValue = legValue(priceAtChoice, putStrike, putExpiry - choice, false);
+      return callValue >= putValue
+        ? Math.max(0, prices[indexAt(timeToExpiry)] - strikePrice)
+        : Math.max(0, putStrike - prices[indexAt(putExpiry)]);
+    };
+  } else {
+    return [];
+  }
+
+  return simulateTerminalValues(spotPrice, horizon, volatility, riskFreeRate, pathPayoff, paths, steps, seed, carryYield);
+}
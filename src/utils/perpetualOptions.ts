@@ -0,0 +1,140 @@
+/**
+ * Everlasting Options and Power Perpetuals
+ *
+ * This utility prices perpetual products that never expire. Instead, at the end of
+ * every funding period the long side pays the mark price less the current payoff.
+ * Under that rule an everlasting option is worth a strip of European options
+ * expiring one, two, three, ... funding periods out with weights 1/2, 1/4, 1/8, ...
+ * (White and Bankman-Fried, 2021). A power perpetual paying S^n is priced the same
+ * way, where the strip sums in closed form.
+ */
+
+import { calculateFiniteDifferenceGreeks, calculateGreeks, calculateOptionPremium } from "./blackScholes";
+
+// Each further funding period out carries half the weight of the one before
+const EXPIRY_WEIGHT_RATIO = 0.5;
+
+// Stop adding expiries once the weight left is negligible
+const EXPIRY_WEIGHT_TOLERANCE = 1e-12;
+const MAX_EXPIRIES = 200;
+
+// Funding theta: the long side pays the mark less the payoff every funding period,
+// restated per day
+function withFundingTheta(
+  greeks: ReturnType<typeof calculateGreeks>,
+  premium: number,
+  payoff: number,
+  fundingPeriod: number
+): ReturnType<typeof calculateGreeks> {
+  return { ...greeks, theta: -(premium - payoff) / (fundingPeriod * 365) };
+}
+
+// Calculate the price of an everlasting option as a weighted strip of European options
+export function calculateEverlastingPremium(
+  spotPrice: number,      // Current price of the underlying asset
+  strikePrice: number,    // Strike price of the option
+  volatility: number,     // Implied volatility as a decimal
+  riskFreeRate: number,   // Risk-free interest rate as a decimal
+  isCall: boolean,        // true for call option, false for put option
+  fundingPeriod: number,  // Time between funding payments in years
+  dividendYield = 0       // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || volatility <= 0 || fundingPeriod <= 0) {
+    return 0;
+  }
+
+  let premium = 0;
+  let weight = EXPIRY_WEIGHT_RATIO;
+  for (let expiry = 1; expiry <= MAX_EXPIRIES && weight > EXPIRY_WEIGHT_TOLERANCE; expiry++) {
+    premium += weight * calculateOptionPremium(
+      spotPrice, strikePrice, expiry * fundingPeriod, volatility, riskFreeRate, isCall, dividendYield
+    );
+    weight *= EXPIRY_WEIGHT_RATIO;
+  }
+  return premium;
+}
+
+// Everlasting option Greeks by finite differences. Theta is the funding paid per day,
+// since the option itself never decays towards an expiry.
+export function calculateEverlastingGreeks(
+  spotPrice: number,      // Current price of the underlying asset
+  strikePrice: number,    // Strike price of the option
+  volatility: number,     // Implied volatility as a decimal
+  riskFreeRate: number,   // Risk-free interest rate as a decimal
+  isCall: boolean,        // true for call option, false for put option
+  fundingPeriod: number,  // Time between funding payments in years
+  dividendYield = 0       // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || strikePrice <= 0 || volatility <= 0 || fundingPeriod <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const greeks = calculateFiniteDifferenceGreeks(
+    (spot, _time, vol, rate) => calculateEverlastingPremium(
+      spot, strikePrice, vol, rate, isCall, fundingPeriod, dividendYield
+    ),
+    spotPrice,
+    fundingPeriod,
+    volatility,
+    riskFreeRate
+  );
+  const premium = calculateEverlastingPremium(
+    spotPrice, strikePrice, volatility, riskFreeRate, isCall, fundingPeriod, dividendYield
+  );
+  const payoff = Math.max(0, isCall ? spotPrice - strikePrice : strikePrice - spotPrice);
+  return withFundingTheta(greeks, premium, payoff, fundingPeriod);
+}
+
+// Calculate the price of a power perpetual paying S^n. Each expiry in the strip is worth
+// S^n G^i with G the discounted growth of S^n over one funding period, so the strip is
+// geometric. Returns 0 when G reaches 2, where funding cannot keep the price finite.
+export function calculatePowerPerpetualPremium(
+  spotPrice: number,      // Current price of the underlying asset
+  volatility: number,     // Implied volatility as a decimal
+  riskFreeRate: number,   // Risk-free interest rate as a decimal
+  power: number,          // Exponent n of the payoff, 2 for a squared perpetual
+  fundingPeriod: number,  // Time between funding payments in years
+  dividendYield = 0       // Continuous dividend / carry yield as a decimal
+): number {
+  // Check for invalid inputs
+  if (spotPrice <= 0 || volatility < 0 || fundingPeriod <= 0) {
+    return 0;
+  }
+
+  // E[S_t^n] = S^n exp((n (r - q) + n (n - 1) σ² / 2) t), discounted at r
+  const growthRate = power * (riskFreeRate - dividendYield) +
+    0.5 * power * (power - 1) * volatility * volatility - riskFreeRate;
+  const ratio = EXPIRY_WEIGHT_RATIO * Math.exp(growthRate * fundingPeriod);
+  if (ratio >= 1) {
+    return 0;
+  }
+  return Math.pow(spotPrice, power) * ratio / (1 - ratio);
+}
+
+// Power perpetual Greeks by finite differences, with the funding paid per day as theta
+export function calculatePowerPerpetualGreeks(
+  spotPrice: number,      // Current price of the underlying asset
+  volatility: number,     // Implied volatility as a decimal
+  riskFreeRate: number,   // Risk-free interest rate as a decimal
+  power: number,          // Exponent n of the payoff, 2 for a squared perpetual
+  fundingPeriod: number,  // Time between funding payments in years
+  dividendYield = 0       // Continuous dividend / carry yield as a decimal
+): ReturnType<typeof calculateGreeks> {
+  const premium = calculatePowerPerpetualPremium(spotPrice, volatility, riskFreeRate, power, fundingPeriod, dividendYield);
+
+  // Check for invalid inputs
+  if (premium <= 0) {
+    return { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const greeks = calculateFiniteDifferenceGreeks(
+    (spot, _time, vol, rate) => calculatePowerPerpetualPremium(spot, vol, rate, power, fundingPeriod, dividendYield),
+    spotPrice,
+    fundingPeriod,
+    volatility,
+    riskFreeRate
+  );
+  return withFundingTheta(greeks, premium, Math.pow(spotPrice, power), fundingPeriod);
+}
@@ -0,0 +1,40 @@
+/**
+ * Seeded Random Number Generation
+ *
+ * This utility provides a small, reproducible pseudo-random number generator
+ * for the simulation engines, so the same seed always gives the same price.
+ */
+
+export interface RandomGenerator {
+  uniform: () => number;  // Uniform draw on (0, 1)
+  normal: () => number;   // Standard normal draw
+}
+
+// Mulberry32 uniform generator with Box-Muller normal draws
+export function createRandomGenerator(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  let spareNormal: number | null = null;
+
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    // Shift away from zero so the result can be passed to Math.log
+    return (((t ^ (t >>> 14)) >>> 0) + 0.5) / 4294967296;
+  };
+
+  const normal = () => {
+    if (spareNormal !== null) {
+      const value = spareNormal;
+      spareNormal = null;
+      return value;
+    }
+    const radius = Math.sqrt(-2 * Math.log(uniform()));
+    const angle = 2 * Math.PI * uniform();
+    spareNormal = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+
+  return { uniform, normal };
+}
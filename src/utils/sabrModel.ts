@@ -0,0 +1,63 @@
+/**
+ * SABR Volatility Model
+ *
+ * This utility turns SABR parameters into a strike-dependent Black-Scholes
+ * implied volatility using the Hagan et al. (2002) lognormal approximation.
+ * The volatility then feeds the regular Black-Scholes pricing functions.
+ */
+
+export interface SabrParameters {
+  alpha: number;  // Volatility level of the forward (scaled by F^(1-β))
+  beta: number;   // Backbone exponent between 0 (normal) and 1 (lognormal)
+  rho: number;    // Correlation between the forward and its volatility
+  nu: number;     // Volatility of the volatility
+}
+
+// Below this, ln(F/K) and z are treated as zero and the series limits are used
+const SMALL = 1e-7;
+
+// Calculate the Black-Scholes implied volatility at a strike under SABR (Hagan's formula)
+export function calculateSabrVolatility(
+  forwardPrice: number,  // Forward price of the underlying for the option's expiry
+  strikePrice: number,   // Strike price of the option
+  timeToExpiry: number,  // Time to expiry in years
+  params: SabrParameters
+): number {
+  // Check for invalid inputs
+  const { alpha, beta, rho, nu } = params;
+  if (
+    forwardPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 ||
+    alpha <= 0 || beta < 0 || beta > 1 || Math.abs(rho) >= 1 || nu < 0
+  ) {
+    return 0;
+  }
+
+  const oneMinusBeta = 1 - beta;
+  const logMoneyness = Math.log(forwardPrice / strikePrice);
+  const forwardStrikeScale = Math.pow(forwardPrice * strikePrice, oneMinusBeta / 2);
+
+  // Time-dependent correction shared by the ATM and general cases
+  const correction = 1 + (
+    oneMinusBeta * oneMinusBeta / 24 * alpha * alpha / (forwardStrikeScale * forwardStrikeScale) +
+    rho * beta * nu * alpha / (4 * forwardStrikeScale) +
+    (2 - 3 * rho * rho) * nu * nu / 24
+  ) * timeToExpiry;
+
+  const logSquared = logMoneyness * logMoneyness;
+  const denominator = forwardStrikeScale * (
+    1 + oneMinusBeta * oneMinusBeta / 24 * logSquared +
+    Math.pow(oneMinusBeta, 4) / 1920 * logSquared * logSquared
+  );
+
+  // z / x(z) tends to 1 at the money or when the volatility is not stochastic
+  const z = nu / alpha * forwardStrikeScale * logMoneyness;
+  let zOverX: number;
+  if (Math.abs(z) < SMALL) {
+    zOverX = 1 - 0.5 * rho * z;
+  } else {
+    const x = Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+    zOverX = z / x;
+  }
+
+  return Math.max(0, alpha / denominator * zOverX * correction);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { simulateTwoAssetPrice } from "./monteCarlo";
+import { calculateBasketPremium, calculateExchangePremium, calculateSpreadPremium, twoAssetPayoff } from "./twoAssetOptions";
+
+const FIRST = { spotPrice: 100, volatility: 0.3, dividendYield: 0.02 };
+const SECOND = { spotPrice: 90, volatility: 0.25, dividendYield: 0 };
+const TIME = 1;
+const CORRELATION = 0.5;
+const RATE = 0.05;
+
+describe("calculateSpreadPremium", () => {
+  it.each([true, false])("reduces to Margrabe's exchange option at a zero strike (call: %s)", (isCall) => {
+    expect(calculateSpreadPremium(FIRST, SECOND, 0, TIME, CORRELATION, RATE, isCall))
+      .toBeCloseTo(calculateExchangePremium(FIRST, SECOND, TIME, CORRELATION, isCall), 10);
+  });
+});
+
+describe("calculateBasketPremium", () => {
+  // Levy's lognormal approximation is close enough to land within 3 standard errors
+  // of a seeded simulation of the basket
+  it.each([
+    { strike: 170, isCall: true },
+    { strike: 190, isCall: true },
+    { strike: 190, isCall: false },
+    { strike: 210, isCall: false }
+  ])("agrees with a simulated basket (K = $strike, call: $isCall)", ({ strike, isCall }) => {
+    const simulation = simulateTwoAssetPrice(
+      FIRST, SECOND, TIME, CORRELATION, RATE, twoAssetPayoff("basket", isCall, strike, [1, 1]),
+      { paths: 20000, seed: 42, antithetic: true }
+    );
+    const premium = calculateBasketPremium(FIRST, SECOND, [1, 1], strike, TIME, CORRELATION, RATE, isCall);
+    expect(Math.abs(premium - simulation.price)).toBeLessThan(3 * simulation.standardError);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Two-Asset Option Pricing
+ *
+ * This utility prices European options on two correlated lognormal assets:
+ * exchange options (Margrabe), spread options (Kirk's approximation) and
+ * basket options on a weighted sum of the two prices, approximated by a single
+ * lognormal with the basket's first two moments (Levy).
+ */
+
+import { calculateBlack76Premium, calculateOptionPremium } from "./blackScholes";
+
+export interface TwoAssetUnderlying {
+  spotPrice: number;      // Current price of the asset
+  volatility: number;     // Volatility as a decimal
+  dividendYield: number;  // Continuous dividend / carry yield as a decimal
+}
+
+// Exchange options swap one asset for the other; spreads pay on S1 - S2 - K and
+// baskets on w1 S1 + w2 S2 - K
+export type TwoAssetStructure = "exchange" | "spread" | "basket";
+
+// Payoff at expiry for the two final prices
+export type TwoAssetPayoff = (firstPrice: number, secondPrice: number) => number;
+
+// Check that both assets and the correlation can be priced
+function isValidPair(first: TwoAssetUnderlying, second: TwoAssetUnderlying, correlation: number): boolean {
+  return first.spotPrice > 0 && second.spotPrice > 0 && first.volatility > 0 && second.volatility > 0 &&
+    correlation >= -1 && correlation <= 1;
+}
+
+// Volatility of the ratio S1 / S2
+export function calculateExchangeVolatility(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  correlation: number  // Correlation of the two assets' returns
+): number {
+  const variance = first.volatility ** 2 + second.volatility ** 2 - 2 * correlation * first.volatility * second.volatility;
+  return Math.sqrt(Math.max(0, variance));
+}
+
+// Calculate the price of an option to exchange one asset for the other (Margrabe, 1978).
+// The call receives the first asset for the second, the put the second for the first.
+export function calculateExchangePremium(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  timeToExpiry: number,  // Time to expiry in years
+  correlation: number,   // Correlation of the two assets' returns
+  isCall: boolean        // true to receive the first asset, false to receive the second
+): number {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || !isValidPair(first, second, correlation)) {
+    return 0;
+  }
+
+  // Black-Scholes with the second asset as numeraire: the strike is the second asset
+  // and its yield takes the place of the interest rate
+  const firstCarried = first.spotPrice * Math.exp(-first.dividendYield * timeToExpiry);
+  const secondCarried = second.spotPrice * Math.exp(-second.dividendYield * timeToExpiry);
+  const volatility = calculateExchangeVolatility(first, second, correlation);
+  return isCall
+    ? calculateOptionPremium(firstCarried, secondCarried, timeToExpiry, volatility, 0, true)
+    : calculateOptionPremium(secondCarried, firstCarried, timeToExpiry, volatility, 0, true);
+}
+
+// Kirk's volatility for the ratio F1 / (F2 + K)
+export function calculateSpreadVolatility(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  strikePrice: number,   // Strike of the spread
+  timeToExpiry: number,  // Time to expiry in years
+  correlation: number,   // Correlation of the two assets' returns
+  riskFreeRate: number   // Risk-free interest rate as a decimal
+): number {
+  const secondForward = second.spotPrice * Math.exp((riskFreeRate - second.dividendYield) * timeToExpiry);
+  if (secondForward + strikePrice <= 0) {
+    return 0;
+  }
+  const weight = secondForward / (secondForward + strikePrice);
+  const variance = first.volatility ** 2 - 2 * correlation * first.volatility * second.volatility * weight +
+    (second.volatility * weight) ** 2;
+  return Math.sqrt(Math.max(0, variance));
+}
+
+// Calculate the price of a spread option paying on S1 - S2 - K with Kirk's (1995)
+// approximation, which is exact for a zero strike
+export function calculateSpreadPremium(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  strikePrice: number,   // Strike of the spread, may be zero or negative
+  timeToExpiry: number,  // Time to expiry in years
+  correlation: number,   // Correlation of the two assets' returns
+  riskFreeRate: number,  // Risk-free interest rate as a decimal
+  isCall: boolean        // true for a call on the spread, false for a put
+): number {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || !isValidPair(first, second, correlation)) {
+    return 0;
+  }
+
+  const firstForward = first.spotPrice * Math.exp((riskFreeRate - first.dividendYield) * timeToExpiry);
+  const secondForward = second.spotPrice * Math.exp((riskFreeRate - second.dividendYield) * timeToExpiry);
+  const shiftedStrike = secondForward + strikePrice;
+  if (shiftedStrike <= 0) {
+    return 0;
+  }
+
+  // Treat F2 + K as lognormal: the spread option is (F2 + K) options on F1 / (F2 + K) struck at 1
+  const volatility = calculateSpreadVolatility(first, second, strikePrice, timeToExpiry, correlation, riskFreeRate);
+  return shiftedStrike * calculateBlack76Premium(firstForward / shiftedStrike, 1, timeToExpiry, volatility, riskFreeRate, isCall);
+}
+
+// First two moments of the basket w1 S1 + w2 S2 at expiry
+function basketMoments(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  weights: [number, number],
+  timeToExpiry: number,
+  correlation: number,
+  riskFreeRate: number
+): { mean: number; secondMoment: number } {
+  const firstForward = weights[0] * first.spotPrice * Math.exp((riskFreeRate - first.dividendYield) * timeToExpiry);
+  const secondForward = weights[1] * second.spotPrice * Math.exp((riskFreeRate - second.dividendYield) * timeToExpiry);
+  return {
+    mean: firstForward + secondForward,
+    secondMoment: firstForward ** 2 * Math.exp(first.volatility ** 2 * timeToExpiry) +
+      secondForward ** 2 * Math.exp(second.volatility ** 2 * timeToExpiry) +
+      2 * firstForward * secondForward * Math.exp(correlation * first.volatility * second.volatility * timeToExpiry)
+  };
+}
+
+// Volatility of the lognormal that matches the basket's first two moments
+export function calculateBasketVolatility(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  weights: [number, number],  // Units of each asset in the basket
+  timeToExpiry: number,       // Time to expiry in years
+  correlation: number,        // Correlation of the two assets' returns
+  riskFreeRate: number        // Risk-free interest rate as a decimal
+): number {
+  if (timeToExpiry <= 0 || weights[0] < 0 || weights[1] < 0 || weights[0] + weights[1] <= 0) {
+    return 0;
+  }
+  const { mean, secondMoment } = basketMoments(first, second, weights, timeToExpiry, correlation, riskFreeRate);
+  return Math.sqrt(Math.max(0, Math.log(secondMoment / (mean * mean)) / timeToExpiry));
+}
+
+// Calculate the price of a basket option on w1 S1 + w2 S2 by moment matching (Levy, 1992).
+// Weights must be non-negative for the basket to stay positive.
+export function calculateBasketPremium(
+  first: TwoAssetUnderlying,
+  second: TwoAssetUnderlying,
+  weights: [number, number],  // Units of each asset in the basket
+  strikePrice: number,        // Strike price of the basket
+  timeToExpiry: number,       // Time to expiry in years
+  correlation: number,        // Correlation of the two assets' returns
+  riskFreeRate: number,       // Risk-free interest rate as a decimal
+  isCall: boolean             // true for call option, false for put option
+): number {
+  // Check for invalid inputs
+  if (timeToExpiry <= 0 || strikePrice <= 0 || weights[0] < 0 || weights[1] < 0 || weights[0] + weights[1] <= 0 ||
+    !isValidPair(first, second, correlation)) {
+    return 0;
+  }
+
+  const { mean } = basketMoments(first, second, weights, timeToExpiry, correlation, riskFreeRate);
+  const volatility = calculateBasketVolatility(first, second, weights, timeToExpiry, correlation, riskFreeRate);
+  return calculateBlack76Premium(mean, strikePrice, timeToExpiry, volatility, riskFreeRate, isCall);
+}
+
+// Payoff at expiry of a two-asset structure, for simulation
+export function twoAssetPayoff(
+  structure: TwoAssetStructure,
+  isCall: boolean,            // true for a call (or receiving the first asset), false for a put
+  strikePrice = 0,            // Strike of a spread or basket
+  weights: [number, number] = [1, 1]  // Units of each asset in a basket
+): TwoAssetPayoff {
+  return (firstPrice, secondPrice) => {
+    const underlying = structure === "basket"
+      ? weights[0] * firstPrice + weights[1] * secondPrice
+      : firstPrice - secondPrice;
+    const strike = structure === "exchange" ? 0 : strikePrice;
+    return isCall ? Math.max(0, underlying - strike) : Math.max(0, strike - underlying);
+  };
+}
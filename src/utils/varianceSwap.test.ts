@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { replicateVarianceSwap, varianceStrikeGrid } from "./varianceSwap";
+
+describe("replicateVarianceSwap", () => {
+  it("converges to the implied variance for a flat smile as the strip widens and densifies", () => {
+    const volatility = 0.25;
+    const grids: [number, number, number][] = [[50, 200, 10], [40, 250, 5], [25, 400, 2.5], [10, 1000, 1]];
+    const errors = grids.map(([lowest, highest, spacing]) => {
+      const { fairVariance } = replicateVarianceSwap(
+        100, varianceStrikeGrid(lowest, highest, spacing), 0.5, 0.03, () => volatility, 0.01
+      );
+      return fairVariance - volatility * volatility;
+    });
+
+    // The piecewise linear strip lies above the log payoff, so it overstates the variance
+    expect(errors.every((error) => error > 0)).toBe(true);
+    for (let i = 1; i < errors.length; i++) {
+      expect(errors[i]).toBeLessThan(errors[i - 1]);
+    }
+    expect(errors[errors.length - 1] / (volatility * volatility)).toBeLessThan(1e-3);
+  });
+});
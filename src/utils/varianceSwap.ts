@@ -0,0 +1,139 @@
+/**
+ * Variance and Volatility Swaps
+ *
+ * This utility finds the fair strike of a variance swap by replicating the log
+ * contract with a strip of out-of-the-money options (Demeterfi, Derman, Kamal and
+ * Zou, 1999). Only a discrete grid of strikes trades, so the log payoff is matched
+ * piecewise linearly between strikes and extended linearly beyond the outermost
+ * ones; the fair strike therefore includes the variance the grid misses. A
+ * volatility swap strike follows from the variance strike less a convexity
+ * adjustment for the uncertainty of realized variance.
+ */
+
+import { calculateOptionPremium } from "./blackScholes";
+
+// One option in the replicating strip
+export interface VarianceStripOption {
+  strike: number;      // Strike price of the option
+  isCall: boolean;     // Calls above the boundary strike, puts below it
+  volatility: number;  // Implied volatility the option was priced at, as a decimal
+  premium: number;     // Price of one option
+  weight: number;      // Options held per unit of variance notional
+}
+
+export interface VarianceReplication {
+  fairVariance: number;    // Fair variance strike, annualized, as a decimal (σ²)
+  boundaryStrike: number;  // Strike S* separating the puts from the calls
+  strip: VarianceStripOption[];
+}
+
+// Below this, the vol of vol is treated as zero and the series limit is used
+const SMALL = 1e-8;
+
+// Evenly spaced strikes from the lowest to the highest, as listed on an exchange
+export function varianceStrikeGrid(
+  lowestStrike: number,   // First strike of the grid
+  highestStrike: number,  // Last strike of the grid, included if on the spacing
+  strikeSpacing: number   // Distance between neighbouring strikes
+): number[] {
+  // Check for invalid inputs
+  if (lowestStrike <= 0 || highestStrike < lowestStrike || strikeSpacing <= 0) {
+    return [];
+  }
+
+  const count = Math.floor((highestStrike - lowestStrike) / strikeSpacing + SMALL) + 1;
+  return Array.from({ length: count }, (_, i) => lowestStrike + i * strikeSpacing);
+}
+
+// Fair variance strike replicated from out-of-the-money options on the given strikes.
+// Each option is priced with calculateOptionPremium at the volatility of its strike.
+export function replicateVarianceSwap(
+  spotPrice: number,                          // Current price of the underlying asset
+  strikes: number[],                          // Listed strikes available for the strip
+  timeToExpiry: number,                       // Time to expiry in years
+  riskFreeRate: number,                       // Risk-free interest rate as a decimal
+  volatilityAt: (strike: number) => number,   // Implied volatility at a strike, as a decimal
+  dividendYield = 0                           // Continuous dividend / carry yield as a decimal
+): VarianceReplication {
+  const sortedStrikes = [...new Set(strikes.filter((strike) => strike > 0))].sort((a, b) => a - b);
+
+  // Check for invalid inputs
+  if (spotPrice <= 0 || timeToExpiry <= 0 || sortedStrikes.length === 0) {
+    return { fairVariance: 0, boundaryStrike: 0, strip: [] };
+  }
+
+  // The boundary is the highest strike at or below the forward, as for the VIX
+  const forwardPrice = spotPrice * Math.exp((riskFreeRate - dividendYield) * timeToExpiry);
+  const boundaryStrike = sortedStrikes.filter((strike) => strike <= forwardPrice).pop() ?? sortedStrikes[0];
+
+  // Payoff left to replicate once the forward contract is hedged: (2/T)((S - S*)/S* - ln(S/S*)),
+  // which is convex with zero value and slope at S*
+  const logPayoff = (price: number) =>
+    2 / timeToExpiry * ((price - boundaryStrike) / boundaryStrike - Math.log(price / boundaryStrike));
+
+  // Each option's weight is the change in slope of the piecewise linear payoff at its strike,
+  // walking outward from the boundary. The outermost strike only ends the last segment.
+  const strip: VarianceStripOption[] = [];
+  const addWing = (wingStrikes: number[], isCall: boolean) => {
+    let previousSlope = 0;
+    for (let i = 0; i < wingStrikes.length - 1; i++) {
+      const strike = wingStrikes[i];
+      const nextStrike = wingStrikes[i + 1];
+      const slope = (logPayoff(nextStrike) - logPayoff(strike)) / Math.abs(nextStrike - strike);
+      const volatility = volatilityAt(strike);
+      strip.push({
+        strike,
+        isCall,
+        volatility,
+        premium: calculateOptionPremium(spotPrice, strike, timeToExpiry, volatility, riskFreeRate, isCall, dividendYield),
+        weight: slope - previousSlope
+      });
+      previousSlope = slope;
+    }
+  };
+  addWing(sortedStrikes.filter((strike) => strike <= boundaryStrike).reverse(), false);
+  addWing(sortedStrikes.filter((strike) => strike >= boundaryStrike), true);
+
+  // K_var = (2/T)(ln(F/S*) - (F/S* - 1)) + e^(rT) × strip value
+  const stripValue = strip.reduce((sum, option) => sum + option.weight * option.premium, 0);
+  const fairVariance = 2 / timeToExpiry * (Math.log(forwardPrice / boundaryStrike) - (forwardPrice / boundaryStrike - 1)) +
+    Math.exp(riskFreeRate * timeToExpiry) * stripValue;
+
+  return { fairVariance, boundaryStrike, strip };
+}
+
+// Variance of realized variance when volatility itself is lognormal with the given
+// vol of vol (as under SABR with β = 1), scaled so realized variance averages the fair variance
+export function calculateVarianceOfVariance(
+  fairVariance: number,  // Expected realized variance, annualized, as a decimal
+  volOfVol: number,      // Volatility of the instantaneous volatility
+  timeToExpiry: number   // Time to expiry in years
+): number {
+  // Check for invalid inputs
+  if (fairVariance <= 0 || volOfVol < 0 || timeToExpiry <= 0) {
+    return 0;
+  }
+
+  // With x = ν²T, E[V] ∝ (e^x - 1)/x and E[V²] ∝ 2/(5x²) ((e^(6x) - 1)/6 - (e^x - 1))
+  const x = volOfVol * volOfVol * timeToExpiry;
+  if (x < SMALL) {
+    return fairVariance * fairVariance * 4 / 3 * x;
+  }
+  const firstMoment = Math.expm1(x) / x;
+  const secondMoment = 2 / (5 * x * x) * (Math.expm1(6 * x) / 6 - Math.expm1(x));
+  return fairVariance * fairVariance * Math.max(0, secondMoment / (firstMoment * firstMoment) - 1);
+}
+
+// Amount by which the fair volatility swap strike sits below the square root of the
+// variance strike: Var(V) / (8 K_var^(3/2)), from a second-order expansion of √V
+export function calculateVolatilityConvexityAdjustment(
+  fairVariance: number,       // Fair variance strike, annualized, as a decimal
+  varianceOfVariance: number  // Variance of realized variance
+): number {
+  // Check for invalid inputs
+  if (fairVariance <= 0 || varianceOfVariance <= 0) {
+    return 0;
+  }
+
+  return varianceOfVariance / (8 * Math.pow(fairVariance, 1.5));
+}